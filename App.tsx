@@ -1,25 +1,204 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Scene3D from './components/Scene3D';
 import UIOverlay from './components/UIOverlay';
-import { AppState, ControlMode } from './types';
+import * as THREE from 'three';
+import { AppState, CameraViewState, ControlMode, HandGesture, HandPointerState, ParticleDensity, SystemDefinition } from './types';
+import { SOLAR_SYSTEM } from './constants';
+import { createSimulationClock } from './utils/simulationClock';
+import { createBodyRegistry } from './utils/bodyRegistry';
+import { GestureCalibration, loadGestureCalibration, saveGestureCalibration } from './utils/handPose';
+import { fetchSystemDefinition, findMoon, parseSystemDefinition, systemBodies } from './utils/systemLoader';
+import { ScaleMode, createScaleTransition } from './utils/scaleModes';
+import { UnitSystem } from './utils/units';
+import { useViewLink, viewLinkUrl } from './hooks/useViewLink';
+import { ViewLinkState } from './utils/viewLink';
+import { useTourPlayer } from './hooks/useTourPlayer';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { TourProgress } from './utils/tours';
+import { CameraPath, CameraPathPlayback, EMPTY_CAMERA_PATH } from './utils/cameraPaths';
+import { CaptureLayout, CaptureOptions, CaptureProgress, SceneCapturer, captureLayout } from './utils/capture';
+import { DEFAULT_PREFERENCES, Preferences, clearPreferences, loadPreferences, savePreferences } from './utils/preferences';
+import { Keymap } from './utils/keymap';
+import { GamepadInput, GamepadMapping } from './utils/gamepad';
+import { LayerSettings, ScaleBarState } from './utils/layers';
+import { ProjectedBody } from './utils/labels';
+import { Measurement, defaultMeasurement } from './utils/measurements';
+import { createCommandRegistry } from './utils/commands';
+import { coreCommands } from './utils/coreCommands';
+import { useCommandSource } from './hooks/useCommandSource';
 
-import HandController, { HandGesture } from './components/HandController';
+import HandController from './components/HandController';
+import HandCursor from './components/HandCursor';
+import GamepadController from './components/GamepadController';
+import SystemDropZone from './components/SystemDropZone';
+import TourOverlay from './components/TourOverlay';
+import CameraPathEditor from './components/CameraPathEditor';
+import ShortcutHelp from './components/ShortcutHelp';
+import CommandPalette from './components/CommandPalette';
+import ScaleBar from './components/ScaleBar';
+import BodyLabels from './components/BodyLabels';
+import EventFinder from './components/EventFinder';
+
+// Settings a view link carries that are also saved preferences
+const LINKED_PREFERENCES = ['controlMode', 'simulationSpeed', 'particleDensity', 'bloomIntensity', 'scaleMode'] as const satisfies readonly (keyof Preferences & keyof ViewLinkState)[];
 
 const App: React.FC = () => {
+  // Saved preferences seed the initial state; see utils/preferences for the defaults
+  const [initialPreferences] = useState(loadPreferences);
+
   // Application State
-  const [controlMode, setControlMode] = useState<ControlMode>(ControlMode.MOUSE);
+  const [activeSystem, setActiveSystemState] = useState<SystemDefinition>(SOLAR_SYSTEM);
+  const [systemLoadError, setSystemLoadError] = useState<string | null>(null);
+  const [controlMode, setControlMode] = useState<ControlMode>(initialPreferences.controlMode);
   const [focusedBody, setFocusedBody] = useState<string | null>(null);
-  const [simulationSpeed, setSimulationSpeed] = useState<number>(1);
-  const [particleDensity, setParticleDensity] = useState<'LOW' | 'MEDIUM' | 'HIGH'>('MEDIUM');
-  const [bloomIntensity, setBloomIntensity] = useState<number>(1.5);
-  const [showUI, setShowUI] = useState<boolean>(true);
+  const [handHoveredBody, setHandHoveredBody] = useState<string | null>(null);
+  const [simulationSpeed, setSimulationSpeed] = useState<number>(initialPreferences.simulationSpeed);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  // The clock is mutated every frame, so it lives outside React state
+  const [simulationClock] = useState(() => createSimulationClock());
+  const [bodyRegistry] = useState(() => createBodyRegistry());
+  const [commandRegistry] = useState(() => createCommandRegistry());
+  const [scaleTransition] = useState(() => createScaleTransition(initialPreferences.scaleMode));
+  const [scaleMode, setScaleModeState] = useState<ScaleMode>(scaleTransition.mode);
+  const [particleDensity, setParticleDensity] = useState<ParticleDensity>(initialPreferences.particleDensity);
+  const [bloomIntensity, setBloomIntensity] = useState<number>(initialPreferences.bloomIntensity);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(initialPreferences.unitSystem);
+  const [layers, setLayers] = useState<LayerSettings>(initialPreferences.layers);
+  const [showUI, setShowUI] = useState<boolean>(initialPreferences.showUI);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState<boolean>(false);
+  const [showCommandPalette, setShowCommandPalette] = useState<boolean>(false);
+  const [keymap, setKeymap] = useState<Keymap>(initialPreferences.keymap);
+  const [gamepadMapping, setGamepadMapping] = useState<GamepadMapping>(initialPreferences.gamepadMapping);
+  const [isMappingGamepad, setIsMappingGamepad] = useState<boolean>(false);
   const [isMobile, setIsMobile] = useState<boolean>(false);
+  const [gestureCalibration, setGestureCalibrationState] = useState<GestureCalibration>(loadGestureCalibration);
+  const [isCalibrating, setIsCalibrating] = useState<boolean>(false);
+  const [cameraPath, setCameraPath] = useState<CameraPath>(EMPTY_CAMERA_PATH);
+  const [isPlayingCameraPath, setIsPlayingCameraPath] = useState<boolean>(false);
+  const [isEditingCameraPath, setIsEditingCameraPath] = useState<boolean>(false);
+  const [capture, setCapture] = useState<CaptureLayout | null>(null);
+
+  const setScaleMode = (mode: ScaleMode) => {
+    scaleTransition.setMode(mode);
+    setScaleModeState(mode);
+  };
+
+  // A shared view link shows someone else's settings without making them the
+  // viewer's own: linked values are saved as they were until the user changes them
+  const savedPreferences = React.useRef<Preferences>(initialPreferences);
+  const linkedPreferences = React.useRef<Partial<Preferences>>({});
+  const noteLinkedPreferences = (link: Partial<ViewLinkState>) => {
+    LINKED_PREFERENCES.forEach(key => {
+      if (link[key] !== undefined) (linkedPreferences.current as Record<string, unknown>)[key] = link[key];
+    });
+  };
+
+  useEffect(() => {
+    const preferences: Preferences = { controlMode, simulationSpeed, bloomIntensity, particleDensity, showUI, scaleMode, unitSystem, layers, keymap, gamepadMapping };
+    const keepSaved = <K extends keyof Preferences>(key: K) => {
+      preferences[key] = savedPreferences.current[key];
+    };
+    (Object.keys(linkedPreferences.current) as (keyof Preferences)[]).forEach(key => {
+      if (linkedPreferences.current[key] === preferences[key]) {
+        keepSaved(key);
+      } else {
+        delete linkedPreferences.current[key];
+      }
+    });
+    savedPreferences.current = preferences;
+    savePreferences(preferences);
+  }, [controlMode, simulationSpeed, bloomIntensity, particleDensity, showUI, scaleMode, unitSystem, layers, keymap, gamepadMapping]);
+
+  const resetPreferences = () => {
+    clearPreferences();
+    setControlMode(DEFAULT_PREFERENCES.controlMode);
+    setSimulationSpeed(DEFAULT_PREFERENCES.simulationSpeed);
+    setBloomIntensity(DEFAULT_PREFERENCES.bloomIntensity);
+    setParticleDensity(DEFAULT_PREFERENCES.particleDensity);
+    setShowUI(DEFAULT_PREFERENCES.showUI);
+    setScaleMode(DEFAULT_PREFERENCES.scaleMode);
+    setUnitSystem(DEFAULT_PREFERENCES.unitSystem);
+    setLayers(DEFAULT_PREFERENCES.layers);
+    setKeymap(DEFAULT_PREFERENCES.keymap);
+    setGamepadMapping(DEFAULT_PREFERENCES.gamepadMapping);
+  };
+
+  const setGestureCalibration = (calibration: GestureCalibration) => {
+    setGestureCalibrationState(calibration);
+    saveGestureCalibration(calibration);
+  };
 
   // Hand Gesture State (shared with Scene3D via a ref or context would be better, but for now passing via props/state)
   // Actually, Scene3D needs to react to these. Let's pass a gesture callback or state object.
   // We'll use a Ref to store the latest gesture to avoid re-rendering App too often, 
   // but Scene3D needs to read it in useFrame.
   const gestureRef = React.useRef<HandGesture>({ type: 'NONE' });
+  const handPointerRef = React.useRef<HandPointerState>({
+    active: false, x: 0.5, y: 0.5, hoveredBody: null, dwellProgress: 0, pinching: false
+  });
+  const gamepadRef = React.useRef<GamepadInput>({ connected: false, orbit: { x: 0, y: 0 }, zoom: 0 });
+  const cameraViewRef = React.useRef<CameraViewState>({
+    current: { position: new THREE.Vector3(0, 150, 300), target: new THREE.Vector3() },
+    requested: null
+  });
+
+  const tourProgressRef = React.useRef<TourProgress>({ elapsed: 0 });
+  const cameraPathPlaybackRef = React.useRef<CameraPathPlayback>({ time: 0 });
+  const scaleBarRef = React.useRef<ScaleBarState>({ auPerPixel: 0, approximate: true });
+  const labelProjectionsRef = React.useRef(new Map<string, ProjectedBody>());
+  const sceneCaptureRef = React.useRef<SceneCapturer | null>(null);
+  const overlayRef = React.useRef<HTMLDivElement>(null);
+
+  const bodies = useMemo(() => systemBodies(activeSystem), [activeSystem]);
+  const [isMeasuring, setIsMeasuring] = useState<boolean>(false);
+  const [measurement, setMeasurement] = useState<Measurement>(() => defaultMeasurement(bodies, null));
+  const [pinnedMeasurements, setPinnedMeasurements] = useState<Measurement[]>([]);
+  const [showEventFinder, setShowEventFinder] = useState<boolean>(false);
+  const tourPlayer = useTourPlayer(activeSystem, controlMode, { setFocusedBody, setSimulationSpeed });
+
+  const setActiveSystem = (system: SystemDefinition) => {
+    const nextBodies = systemBodies(system);
+    // A shared link's focus is applied before its ?system= has loaded, so keep a focus the new system has
+    setFocusedBody(id => (id && (nextBodies.some(b => b.id === id) || findMoon(nextBodies, id)) ? id : null));
+    setMeasurement(defaultMeasurement(nextBodies, null));
+    setPinnedMeasurements([]);
+    setSystemLoadError(null);
+    setActiveSystemState(system);
+  };
+
+  const loadSystemFile = async (file: File) => {
+    try {
+      setActiveSystem(parseSystemDefinition(await file.text()));
+    } catch (error) {
+      setSystemLoadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // ?system=<name or URL> picks the system on load
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('system');
+    if (!requested) return;
+    fetchSystemDefinition(requested)
+      .then(setActiveSystem)
+      .catch(error => setSystemLoadError(error instanceof Error ? error.message : String(error)));
+  }, []);
+
+  const copyViewLink = async () => {
+    await navigator.clipboard.writeText(viewLinkUrl(appState, cameraViewRef.current));
+  };
+
+  // The canvas is resized to the output's aspect ratio for the duration of a capture
+  const captureScene = async (options: CaptureOptions, onProgress: (progress: CaptureProgress) => void, signal: AbortSignal) => {
+    const capturer = sceneCaptureRef.current;
+    if (!capturer) throw new Error('The scene is not ready to capture yet.');
+    setCapture(captureLayout(options.width, options.height));
+    try {
+      await capturer.capture(options, overlayRef.current, onProgress, signal);
+    } finally {
+      setCapture(null);
+    }
+  };
 
   // Responsive check
   useEffect(() => {
@@ -30,20 +209,88 @@ const App: React.FC = () => {
   }, []);
 
   const appState: AppState = {
+    activeSystem,
+    setActiveSystem,
+    bodies,
+    systemLoadError,
+    setSystemLoadError,
+    loadSystemFile,
     controlMode,
     setControlMode,
     focusedBody,
     setFocusedBody,
+    handHoveredBody,
+    setHandHoveredBody,
     simulationSpeed,
     setSimulationSpeed,
+    isPaused,
+    setIsPaused,
+    simulationClock,
+    bodyRegistry,
+    scaleMode,
+    setScaleMode,
+    scaleTransition,
     particleDensity,
     setParticleDensity,
     bloomIntensity,
     setBloomIntensity,
+    unitSystem,
+    setUnitSystem,
+    layers,
+    setLayers,
+    isMeasuring,
+    setIsMeasuring,
+    measurement,
+    setMeasurement,
+    pinnedMeasurements,
+    setPinnedMeasurements,
+    showEventFinder,
+    setShowEventFinder,
     showUI,
-    setShowUI
+    setShowUI,
+    showSettings,
+    setShowSettings,
+    showShortcutHelp,
+    setShowShortcutHelp,
+    keymap,
+    setKeymap,
+    commandRegistry,
+    showCommandPalette,
+    setShowCommandPalette,
+    copyViewLink,
+    resetPreferences,
+    tour: tourPlayer.tour,
+    tourPlayback: tourPlayer.tourPlayback,
+    tourCaption: tourPlayer.tourCaption,
+    setTourCaption: tourPlayer.setTourCaption,
+    highlightedBody: tourPlayer.highlightedBody,
+    setHighlightedBody: tourPlayer.setHighlightedBody,
+    advanceTour: tourPlayer.advanceTour,
+    setTourPlaying: tourPlayer.setTourPlaying,
+    nextTourChapter: tourPlayer.nextTourChapter,
+    previousTourChapter: tourPlayer.previousTourChapter,
+    cameraPath,
+    setCameraPath,
+    isPlayingCameraPath,
+    setIsPlayingCameraPath,
+    isEditingCameraPath,
+    setIsEditingCameraPath,
+    isCapturing: capture !== null,
+    captureScene,
+    gestureCalibration,
+    setGestureCalibration,
+    isCalibrating,
+    setIsCalibrating,
+    gamepadMapping,
+    setGamepadMapping,
+    isMappingGamepad,
+    setIsMappingGamepad
   };
 
+  useViewLink(appState, cameraViewRef, noteLinkedPreferences);
+  useKeyboardShortcuts(appState);
+  useCommandSource(commandRegistry, coreCommands(appState));
+
   const handleGesture = (gesture: HandGesture) => {
     gestureRef.current = gesture;
 
@@ -54,19 +301,45 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden font-sans text-white select-none">
+    <div ref={overlayRef} className="relative w-full h-screen bg-black overflow-hidden font-sans text-white select-none">
       {/* 3D Scene Layer */}
-      <div className="absolute inset-0 z-0">
-        <Scene3D appState={appState} isMobile={isMobile} gestureRef={gestureRef} />
+      <div
+        className="absolute inset-0 z-0"
+        style={capture ? { width: capture.cssWidth, height: capture.cssHeight, margin: 'auto' } : undefined}
+      >
+        <Scene3D
+          appState={appState}
+          isMobile={isMobile}
+          gestureRef={gestureRef}
+          handPointerRef={handPointerRef}
+          gamepadRef={gamepadRef}
+          cameraViewRef={cameraViewRef}
+          tourProgressRef={tourProgressRef}
+          cameraPathPlaybackRef={cameraPathPlaybackRef}
+          scaleBarRef={scaleBarRef}
+          labelProjectionsRef={labelProjectionsRef}
+          capture={capture}
+          sceneCaptureRef={sceneCaptureRef}
+        />
       </div>
 
       {/* UI Overlay Layer */}
       <div className={`absolute inset-0 z-10 pointer-events-none transition-opacity duration-500 ${showUI ? 'opacity-100' : 'opacity-0'}`}>
+        <BodyLabels appState={appState} projectionsRef={labelProjectionsRef} />
         <UIOverlay appState={appState} isMobile={isMobile} />
+        <CameraPathEditor appState={appState} cameraViewRef={cameraViewRef} playbackRef={cameraPathPlaybackRef} />
+        <EventFinder appState={appState} cameraViewRef={cameraViewRef} />
+        <ScaleBar scaleBarRef={scaleBarRef} unitSystem={unitSystem} enabled={layers.scaleBar} />
       </div>
 
       {/* Hand Controller */}
       <HandController appState={appState} onGesture={handleGesture} />
+      <HandCursor pointerRef={handPointerRef} enabled={controlMode === ControlMode.HAND} />
+      <GamepadController appState={appState} inputRef={gamepadRef} />
+      <TourOverlay appState={appState} progressRef={tourProgressRef} />
+      <ShortcutHelp appState={appState} />
+      <CommandPalette appState={appState} />
+      <SystemDropZone appState={appState} />
 
       {/* Toggle UI Button (Always visible) */}
       {!showUI && (
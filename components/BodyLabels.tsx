@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AppState } from '../types';
+import { LabelBox, ProjectedBody, labelTargets, layoutLabels } from '../utils/labels';
+import { formatDistance } from '../utils/units';
+
+interface BodyLabelsProps {
+  appState: AppState;
+  projectionsRef: React.MutableRefObject<Map<string, ProjectedBody>>;
+}
+
+const FOCUSED_PRIORITY = 100;
+
+// Name tags pinned to each body's position on screen. The scene projects the
+// bodies every frame; this lays the tags out around them without overlaps and
+// writes styles directly, so following the bodies never goes through a React render.
+const BodyLabels: React.FC<BodyLabelsProps> = ({ appState, projectionsRef }) => {
+  const { labels: enabled, labelDistances: showDistances } = appState.layers;
+  const { focusedBody, unitSystem } = appState;
+  const labelRefs = useRef(new Map<string, HTMLButtonElement>());
+  const distanceRefs = useRef(new Map<string, HTMLSpanElement>());
+
+  const targets = useMemo(
+    () => labelTargets(appState.bodies, appState.particleDensity),
+    [appState.bodies, appState.particleDensity]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+
+    const update = () => {
+      const projections = projectionsRef.current;
+      const boxes: LabelBox[] = [];
+
+      targets.forEach(target => {
+        const label = labelRefs.current.get(target.id);
+        const anchor = projections.get(target.id);
+        if (!label) return;
+        if (!anchor?.visible) {
+          label.style.visibility = 'hidden';
+          return;
+        }
+        const distance = distanceRefs.current.get(target.id);
+        if (distance) {
+          const text = formatDistance(anchor.distanceAU, unitSystem);
+          if (distance.textContent !== text) distance.textContent = text;
+        }
+        const priority = target.id === focusedBody ? FOCUSED_PRIORITY : target.rank + anchor.fade;
+        boxes.push({ id: target.id, width: 0, height: 0, priority, anchor });
+      });
+
+      // Measure after every text change so the layout only forces one reflow
+      boxes.forEach(box => {
+        const label = labelRefs.current.get(box.id)!;
+        box.width = label.offsetWidth;
+        box.height = label.offsetHeight;
+      });
+
+      const placements = layoutLabels(boxes);
+      boxes.forEach(box => {
+        const label = labelRefs.current.get(box.id)!;
+        const spot = placements.get(box.id);
+        label.style.visibility = spot ? 'visible' : 'hidden';
+        if (!spot) return;
+        label.style.transform = `translate(${Math.round(spot.x)}px, ${Math.round(spot.y)}px)`;
+        label.style.opacity = String(box.id === focusedBody ? 1 : box.anchor.fade);
+      });
+
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled, targets, focusedBody, unitSystem, projectionsRef]);
+
+  if (!enabled) return null;
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {targets.map(target => (
+        <button
+          key={target.id}
+          ref={el => {
+            if (el) labelRefs.current.set(target.id, el);
+            else labelRefs.current.delete(target.id);
+          }}
+          onClick={() => appState.setFocusedBody(target.id)}
+          style={{ visibility: 'hidden' }}
+          className={`absolute top-0 left-0 px-1 rounded bg-black/40 whitespace-nowrap text-[10px] uppercase tracking-wider pointer-events-auto hover:text-white hover:bg-cyan-500/20 ${target.id === focusedBody ? 'text-white' : 'text-cyan-300/90'}`}
+        >
+          {target.name}
+          {showDistances && (
+            <span
+              ref={el => {
+                if (el) distanceRefs.current.set(target.id, el);
+                else distanceRefs.current.delete(target.id);
+              }}
+              className="ml-1 font-mono normal-case tracking-normal text-gray-400"
+            />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default BodyLabels;
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { AppState, CameraViewState } from '../types';
+import {
+  CAMERA_PATH_EASES,
+  CAMERA_PATH_EASE_LABELS,
+  CameraPathEase,
+  CameraPathPlayback,
+  EMPTY_CAMERA_PATH,
+  addKeyframe,
+  cameraPathDuration,
+  createCameraPathSampler,
+  createKeyframe,
+  downloadCameraPath,
+  keyframeTimes,
+  moveKeyframe,
+  parseCameraPath,
+  removeKeyframe,
+  updateKeyframe
+} from '../utils/cameraPaths';
+import { Vec3Tuple } from '../utils/viewLink';
+import { useCommandSource } from '../hooks/useCommandSource';
+import { ArrowDown, ArrowUp, Camera, Download, Play, Square, Trash2, Upload, X } from 'lucide-react';
+
+interface CameraPathEditorProps {
+  appState: AppState;
+  cameraViewRef: React.MutableRefObject<CameraViewState>;
+  playbackRef: React.MutableRefObject<CameraPathPlayback>;
+}
+
+// Records the live camera as keyframes, edits their timing and order on a
+// timeline, and plays the path back through the camera controller.
+const CameraPathEditor: React.FC<CameraPathEditorProps> = ({ appState, cameraViewRef, playbackRef }) => {
+  const [error, setError] = useState<string | null>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const path = appState.cameraPath;
+  const duration = useMemo(() => cameraPathDuration(path), [path]);
+  const times = useMemo(() => keyframeTimes(path), [path]);
+  const sampler = useMemo(() => createCameraPathSampler(path), [path]);
+  const isOpen = appState.isEditingCameraPath;
+
+  // The playhead follows playback every frame without re-rendering
+  useEffect(() => {
+    if (!isOpen) return;
+    let frame = 0;
+    const update = () => {
+      if (playheadRef.current) {
+        const progress = duration > 0 ? Math.min(1, playbackRef.current.time / duration) : 0;
+        playheadRef.current.style.left = `${progress * 100}%`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, duration, playbackRef]);
+
+  useCommandSource(appState.commandRegistry, () => [
+    {
+      id: 'camera-path:editor',
+      title: isOpen ? 'Close camera path editor' : 'Open camera path editor',
+      group: 'Camera Path',
+      keywords: ['keyframes', 'record', 'animation'],
+      run: () => appState.setIsEditingCameraPath(!isOpen)
+    },
+    ...(path.keyframes.length >= 2 ? [{
+      id: 'camera-path:play',
+      title: appState.isPlayingCameraPath ? 'Stop camera path' : 'Play camera path',
+      group: 'Camera Path',
+      run: () => {
+        if (!appState.isPlayingCameraPath && playbackRef.current.time >= duration) playbackRef.current.time = 0;
+        appState.setIsPlayingCameraPath(!appState.isPlayingCameraPath);
+      }
+    }] : [])
+  ]);
+
+  if (!isOpen) return null;
+
+  const showPose = (position: Vec3Tuple | THREE.Vector3, target: Vec3Tuple | THREE.Vector3) => {
+    cameraViewRef.current.requested = {
+      position: Array.isArray(position) ? new THREE.Vector3(...position) : position.clone(),
+      target: Array.isArray(target) ? new THREE.Vector3(...target) : target.clone()
+    };
+  };
+
+  const recordKeyframe = () => {
+    const { position, target } = cameraViewRef.current.current;
+    appState.setCameraPath(addKeyframe(path, createKeyframe(
+      position.toArray() as Vec3Tuple,
+      target.toArray() as Vec3Tuple
+    )));
+  };
+
+  const togglePlayback = () => {
+    if (appState.isPlayingCameraPath) {
+      appState.setIsPlayingCameraPath(false);
+      return;
+    }
+    if (playbackRef.current.time >= duration) playbackRef.current.time = 0;
+    appState.setIsPlayingCameraPath(true);
+  };
+
+  // Clicking the timeline jumps the camera to that moment
+  const scrub = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!sampler) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = THREE.MathUtils.clamp((e.clientX - rect.left) / rect.width, 0, 1) * duration;
+    playbackRef.current.time = time;
+    const position = new THREE.Vector3();
+    const target = new THREE.Vector3();
+    sampler(time, position, target);
+    showPose(position, target);
+  };
+
+  const importPath = async (file: File) => {
+    try {
+      appState.setIsPlayingCameraPath(false);
+      appState.setCameraPath(parseCameraPath(await file.text()));
+      playbackRef.current.time = 0;
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const iconButton = 'p-1.5 rounded border border-gray-700 text-gray-400 hover:text-cyan-300 hover:border-cyan-500/60 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div className="absolute top-20 left-4 w-72 max-h-[60vh] flex flex-col bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-3 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-40">
+      <div className="flex justify-between items-center mb-3 border-b border-gray-800 pb-2">
+        <input
+          value={path.name}
+          onChange={(e) => appState.setCameraPath({ ...path, name: e.target.value })}
+          className="bg-transparent text-cyan-400 font-bold uppercase text-sm w-40 focus:outline-none"
+          title="Path name"
+        />
+        <button onClick={() => appState.setIsEditingCameraPath(false)} className="text-gray-500 hover:text-red-400">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <button onClick={recordKeyframe} className={`${iconButton} flex-1 flex items-center justify-center gap-1 text-xs`} title="Add the current view as a keyframe">
+          <Camera size={14} /> Record
+        </button>
+        <button onClick={togglePlayback} disabled={path.keyframes.length < 2} className={iconButton} title={appState.isPlayingCameraPath ? 'Stop' : 'Play'}>
+          {appState.isPlayingCameraPath ? <Square size={14} /> : <Play size={14} />}
+        </button>
+        <button onClick={() => downloadCameraPath(path)} disabled={path.keyframes.length === 0} className={iconButton} title="Export as JSON">
+          <Download size={14} />
+        </button>
+        <label className={`${iconButton} cursor-pointer`} title="Import JSON">
+          <Upload size={14} />
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPath(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={() => {
+            appState.setIsPlayingCameraPath(false);
+            appState.setCameraPath({ ...EMPTY_CAMERA_PATH, name: path.name });
+            playbackRef.current.time = 0;
+          }}
+          disabled={path.keyframes.length === 0}
+          className={iconButton}
+          title="Clear all keyframes"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {/* Timeline */}
+      <div className="mb-1 flex justify-between text-[9px] text-gray-600">
+        <span>0s</span>
+        <span>{duration.toFixed(1)}s</span>
+      </div>
+      <div onClick={scrub} className="relative h-5 mb-3 bg-gray-800/80 rounded cursor-pointer">
+        {times.map((time, i) => (
+          <div
+            key={path.keyframes[i].id}
+            className="absolute top-1 bottom-1 w-1 -ml-0.5 rounded-sm bg-purple-400"
+            style={{ left: `${duration > 0 ? (time / duration) * 100 : 0}%` }}
+          />
+        ))}
+        <div ref={playheadRef} className="absolute top-0 bottom-0 w-px bg-cyan-300 shadow-[0_0_6px_rgba(0,255,255,0.8)]" />
+      </div>
+
+      {/* Keyframes */}
+      <div className="overflow-y-auto flex-1 space-y-1">
+        {path.keyframes.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-2">Frame a shot in any control mode, then press Record.</p>
+        )}
+        {path.keyframes.map((keyframe, i) => (
+          <div key={keyframe.id} className="flex items-center gap-1 text-[10px] text-gray-400">
+            <button
+              onClick={() => showPose(keyframe.position, keyframe.target)}
+              className="w-6 text-purple-300 hover:text-cyan-300 flex items-center justify-center"
+              title="Go to this keyframe"
+            >
+              {i + 1}
+            </button>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={keyframe.duration}
+              disabled={i === 0}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value >= 0) appState.setCameraPath(updateKeyframe(path, keyframe.id, { duration: value }));
+              }}
+              className="w-12 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 disabled:opacity-30"
+              title="Seconds from the previous keyframe"
+            />
+            <select
+              value={keyframe.ease}
+              disabled={i === 0}
+              onChange={(e) => appState.setCameraPath(updateKeyframe(path, keyframe.id, { ease: e.target.value as CameraPathEase }))}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-gray-300 disabled:opacity-30"
+            >
+              {CAMERA_PATH_EASES.map(ease => (
+                <option key={ease} value={ease}>{CAMERA_PATH_EASE_LABELS[ease]}</option>
+              ))}
+            </select>
+            <button onClick={() => appState.setCameraPath(moveKeyframe(path, keyframe.id, -1))} disabled={i === 0} className="hover:text-cyan-300 disabled:opacity-30" title="Move earlier">
+              <ArrowUp size={12} />
+            </button>
+            <button onClick={() => appState.setCameraPath(moveKeyframe(path, keyframe.id, 1))} disabled={i === path.keyframes.length - 1} className="hover:text-cyan-300 disabled:opacity-30" title="Move later">
+              <ArrowDown size={12} />
+            </button>
+            <button onClick={() => appState.setCameraPath(removeKeyframe(path, keyframe.id))} className="hover:text-red-400" title="Delete">
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-2 text-[10px] text-red-400 whitespace-pre-line">{error}</p>}
+    </div>
+  );
+};
+
+export default CameraPathEditor;
@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { AppState } from '../types';
+import {
+  CAPTURE_FORMAT_LABELS,
+  CAPTURE_FRAME_RATES,
+  CAPTURE_RESOLUTIONS,
+  CaptureFormat,
+  CaptureProgress,
+  maxCaptureFrames,
+  webmMimeType
+} from '../utils/capture';
+import { Aperture, X } from 'lucide-react';
+
+interface CapturePanelProps {
+  appState: AppState;
+  onClose: () => void;
+}
+
+const SCREEN_RESOLUTION = 'screen';
+
+// Capture settings for stills, frame sequences and video. The panel itself is
+// never part of the captured UI.
+const CapturePanel: React.FC<CapturePanelProps> = ({ appState, onClose }) => {
+  const [format, setFormat] = useState<CaptureFormat>('PNG');
+  const [resolution, setResolution] = useState(SCREEN_RESOLUTION);
+  const [fps, setFps] = useState(30);
+  const [seconds, setSeconds] = useState(5);
+  const [includeUI, setIncludeUI] = useState(false);
+  const [progress, setProgress] = useState<CaptureProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const canRecordVideo = webmMimeType() !== undefined;
+
+  const outputSize = () => {
+    const preset = CAPTURE_RESOLUTIONS.find(r => r.label === resolution);
+    if (preset) return { width: preset.width, height: preset.height };
+    const dpr = window.devicePixelRatio || 1;
+    return { width: Math.round(window.innerWidth * dpr), height: Math.round(window.innerHeight * dpr) };
+  };
+  const { width, height } = outputSize();
+  const maxFrames = maxCaptureFrames(format, width, height);
+  const frames = Math.min(maxFrames, Math.max(1, Math.round(seconds * fps)));
+
+  const startCapture = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ frame: 0, total: format === 'PNG' ? 1 : frames });
+    try {
+      await appState.captureScene({ format, width, height, fps, frames, includeUI }, setProgress, controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isCapturing = progress !== null;
+  const optionButton = (active: boolean) => `flex-1 py-1 uppercase ${active ? 'bg-cyan-900/80 text-cyan-200' : 'bg-black/50 text-gray-500 hover:bg-gray-800'} disabled:opacity-40 disabled:pointer-events-none`;
+
+  return (
+    <div
+      data-capture-ignore
+      className="absolute top-20 right-4 w-64 bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-4 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-50"
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+        <h3 className="text-cyan-400 font-bold uppercase text-sm">Capture</h3>
+        <button onClick={onClose} disabled={isCapturing} className="text-gray-500 hover:text-red-400 disabled:opacity-40">
+          <X size={16} />
+        </button>
+      </div>
+
+      <fieldset disabled={isCapturing}>
+        {/* Format */}
+        <div className="mb-4">
+          <label className="text-xs text-gray-400 mb-2 block">Format</label>
+          <div className="flex text-xs border border-gray-700 rounded overflow-hidden">
+            {(Object.keys(CAPTURE_FORMAT_LABELS) as CaptureFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                disabled={f === 'WEBM' && !canRecordVideo}
+                className={optionButton(format === f)}
+                title={f === 'WEBM' && !canRecordVideo ? 'Video recording is not supported in this browser' : undefined}
+              >
+                {CAPTURE_FORMAT_LABELS[f]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Resolution */}
+        <div className="mb-4">
+          <label className="text-xs text-gray-400 mb-2 block">Resolution</label>
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            <option value={SCREEN_RESOLUTION}>Screen</option>
+            {CAPTURE_RESOLUTIONS.map(r => (
+              <option key={r.label} value={r.label}>{r.label} ({r.width}×{r.height})</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Timing (sequences and video) */}
+        {format !== 'PNG' && (
+          <div className="mb-4">
+            <label className="text-xs text-gray-400 mb-2 block">Frame Rate</label>
+            <div className="flex text-xs border border-gray-700 rounded overflow-hidden mb-3">
+              {CAPTURE_FRAME_RATES.map(rate => (
+                <button key={rate} onClick={() => setFps(rate)} className={optionButton(fps === rate)}>
+                  {rate} fps
+                </button>
+              ))}
+            </div>
+            <label className="text-xs text-gray-400 mb-2 flex justify-between">
+              <span>Duration</span>
+              <span className="text-gray-500">{frames} frames{frames === maxFrames ? ' (max)' : ''}</span>
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={seconds}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setSeconds(value);
+                }}
+                className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+              />
+              <span className="text-xs text-gray-500">seconds</span>
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 mb-4 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={includeUI} onChange={(e) => setIncludeUI(e.target.checked)} className="accent-cyan-500" />
+          Include interface
+        </label>
+      </fieldset>
+
+      {isCapturing ? (
+        <div>
+          <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+            <span>Frame {progress.frame}/{progress.total}</span>
+            <button onClick={() => abortRef.current?.abort()} className="text-red-400 hover:text-red-300 uppercase">Cancel</button>
+          </div>
+          <div className="h-1 bg-gray-700 rounded overflow-hidden">
+            <div className="h-full bg-cyan-500" style={{ width: `${(progress.frame / progress.total) * 100}%` }} />
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startCapture}
+          className="w-full py-2 flex items-center justify-center gap-2 text-xs uppercase rounded border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/20 transition-colors"
+        >
+          <Aperture size={14} /> Capture
+        </button>
+      )}
+
+      {error && <p className="mt-2 text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CapturePanel;
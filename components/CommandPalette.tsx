@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState } from '../types';
+import { PaletteCommand, searchCommands } from '../utils/commands';
+import { Search } from 'lucide-react';
+
+interface CommandPaletteProps {
+  appState: AppState;
+}
+
+// Ctrl/Cmd+K search over bodies and commands. Arrow keys move through the
+// results, Enter runs one and Escape closes.
+const CommandPalette: React.FC<CommandPaletteProps> = ({ appState }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const isOpen = appState.showCommandPalette;
+
+  // Commands depend on app state (e.g. "Pause" vs "Resume"), so search again on every render while open
+  const results = isOpen ? searchCommands(appState.commandRegistry, query) : [];
+  const resultKey = results.map(r => r.id).join('|');
+
+  useEffect(() => {
+    if (isOpen) setQuery('');
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [resultKey]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const close = () => appState.setShowCommandPalette(false);
+  const runCommand = (command: PaletteCommand) => {
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(i => (results.length ? (i + 1) % results.length : 0));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(i => (results.length ? (i - 1 + results.length) % results.length : 0));
+        break;
+      case 'Enter':
+        if (results[activeIndex]) runCommand(results[activeIndex]);
+        break;
+      case 'Escape':
+        close();
+        break;
+    }
+  };
+
+  return (
+    <div
+      data-capture-ignore
+      onClick={close}
+      className="absolute inset-0 z-50 flex justify-center items-start pt-[15vh] bg-black/60 backdrop-blur-sm pointer-events-auto"
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-[90%] max-w-lg bg-gray-900/95 border border-cyan-500/60 rounded-lg shadow-[0_0_25px_rgba(0,255,255,0.2)] overflow-hidden"
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-gray-800">
+          <Search size={16} className="text-cyan-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search bodies or type a command…"
+            className="flex-1 bg-transparent py-3 text-sm text-white placeholder-gray-500 focus:outline-none"
+            role="combobox"
+            aria-expanded
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `command-${results[activeIndex].id}` : undefined}
+          />
+          <kbd className="px-1.5 py-0.5 rounded border border-gray-700 text-[10px] text-gray-500 font-mono">Esc</kbd>
+        </div>
+
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-[50vh] overflow-y-auto py-1">
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-xs text-gray-500">No matching bodies or commands.</li>
+          )}
+          {results.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseMove={() => setActiveIndex(i)}
+              onClick={() => runCommand(command)}
+              className={`flex justify-between items-center gap-3 px-4 py-2 cursor-pointer text-sm ${i === activeIndex ? 'bg-cyan-500/20 text-white' : 'text-gray-300'}`}
+            >
+              <span className="truncate">{command.title}</span>
+              <span className="shrink-0 text-[10px] uppercase tracking-wider text-gray-500">{command.hint ?? command.group}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
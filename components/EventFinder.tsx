@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { AppState, CameraViewState, ControlMode } from '../types';
+import {
+  EARTH_ID,
+  MAX_SEARCH_DAYS,
+  SKY_EVENT_LABELS,
+  SkyEvent,
+  SkyEventKind,
+  findSkyEvents,
+  skyEventView
+} from '../utils/events';
+import {
+  TIMELINE_MAX_JD,
+  TIMELINE_MIN_JD,
+  dateFromJulianDate,
+  formatJulianDate,
+  julianDateFromDate
+} from '../utils/simulationClock';
+import { useCommandSource } from '../hooks/useCommandSource';
+import { Search, X } from 'lucide-react';
+
+interface EventFinderProps {
+  appState: AppState;
+  cameraViewRef: React.MutableRefObject<CameraViewState>;
+}
+
+const DEFAULT_SEARCH_DAYS = 365;
+
+const toDateInput = (jd: number) => dateFromJulianDate(jd).toISOString().slice(0, 10);
+const fromDateInput = (value: string) => julianDateFromDate(new Date(`${value}T00:00:00Z`));
+
+// Searches a date range for conjunctions, oppositions, elongations and
+// alignments as seen from Earth. Picking an event moves time to it, pauses and
+// frames it from beside Earth.
+const EventFinder: React.FC<EventFinderProps> = ({ appState, cameraViewRef }) => {
+  const [start, setStart] = useState(() => toDateInput(appState.simulationClock.julianDate));
+  const [end, setEnd] = useState(() => toDateInput(appState.simulationClock.julianDate + DEFAULT_SEARCH_DAYS));
+  const [kinds, setKinds] = useState<SkyEventKind[]>(Object.keys(SKY_EVENT_LABELS) as SkyEventKind[]);
+  const [results, setResults] = useState<SkyEvent[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selected, setSelected] = useState<SkyEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isOpen = appState.showEventFinder;
+
+  // Results belong to the system they were found in
+  useEffect(() => {
+    setResults(null);
+    setSelected(null);
+  }, [appState.bodies]);
+
+  // Start from wherever the clock is now, unless there's a search to come back to
+  useEffect(() => {
+    if (!isOpen || results) return;
+    const now = appState.simulationClock.julianDate;
+    setStart(toDateInput(now));
+    setEnd(toDateInput(Math.min(TIMELINE_MAX_JD, now + DEFAULT_SEARCH_DAYS)));
+  }, [isOpen]);
+
+  useCommandSource(appState.commandRegistry, () => [
+    {
+      id: 'sky-events',
+      title: isOpen ? 'Close sky events' : 'Find sky events',
+      group: 'View',
+      keywords: ['conjunction', 'opposition', 'elongation', 'alignment', 'observing'],
+      run: () => {
+        appState.setShowUI(true);
+        appState.setShowEventFinder(!isOpen);
+      }
+    }
+  ]);
+
+  if (!isOpen) return null;
+
+  const hasEarth = appState.bodies.some(b => b.id === EARTH_ID);
+
+  const search = () => {
+    const startJD = fromDateInput(start);
+    const endJD = fromDateInput(end);
+    if (!Number.isFinite(startJD) || !Number.isFinite(endJD) || endJD <= startJD) {
+      setError('Pick an end date after the start date.');
+      return;
+    }
+    if (endJD - startJD > MAX_SEARCH_DAYS) {
+      setError(`Search at most ${Math.floor(MAX_SEARCH_DAYS / 366)} years at a time.`);
+      return;
+    }
+    setError(null);
+    setIsSearching(true);
+    // Let "Searching…" paint before the synchronous search
+    setTimeout(() => {
+      setResults(findSkyEvents(appState.bodies, startJD, endJD, kinds));
+      setSelected(null);
+      setIsSearching(false);
+    }, 20);
+  };
+
+  const goToEvent = (event: SkyEvent) => {
+    setSelected(event);
+    appState.simulationClock.setJulianDate(event.julianDate);
+    appState.setIsPaused(true);
+    if (appState.controlMode === ControlMode.AUTO) appState.setControlMode(ControlMode.MOUSE);
+    appState.setFocusedBody(null);
+    const earthRadius = appState.bodyRegistry.get(EARTH_ID)?.radius ?? 1;
+    const view = skyEventView(event, appState.bodies, appState.scaleTransition, earthRadius);
+    if (view) cameraViewRef.current.requested = view;
+  };
+
+  const toggleKind = (kind: SkyEventKind) => {
+    setKinds(kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind]);
+  };
+
+  const dateInput = (value: string, onChange: (value: string) => void) => (
+    <input
+      type="date"
+      value={value}
+      min={toDateInput(TIMELINE_MIN_JD)}
+      max={toDateInput(TIMELINE_MAX_JD)}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-1 py-1 text-xs text-gray-300 [color-scheme:dark]"
+    />
+  );
+
+  return (
+    <div
+      data-capture-ignore
+      className="absolute top-20 left-4 w-80 max-h-[70vh] flex flex-col bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-3 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-40"
+    >
+      <div className="flex justify-between items-center mb-3 border-b border-gray-800 pb-2">
+        <h3 className="text-cyan-400 font-bold uppercase text-sm">Sky Events</h3>
+        <button onClick={() => appState.setShowEventFinder(false)} className="text-gray-500 hover:text-red-400">
+          <X size={16} />
+        </button>
+      </div>
+
+      {!hasEarth ? (
+        <p className="text-xs text-amber-300">Events are seen from Earth, and this system has no planet with the id "{EARTH_ID}".</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-1 mb-2">
+            {dateInput(start, setStart)}
+            <span className="text-xs text-gray-500">to</span>
+            {dateInput(end, setEnd)}
+          </div>
+          <div className="grid grid-cols-2 gap-1 mb-2">
+            {(Object.keys(SKY_EVENT_LABELS) as SkyEventKind[]).map(kind => (
+              <label key={kind} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} className="accent-cyan-500" />
+                {SKY_EVENT_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={search}
+            disabled={isSearching || kinds.length === 0}
+            className="w-full py-1 mb-2 flex items-center justify-center gap-2 text-xs rounded border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Search size={12} /> {isSearching ? 'Searching…' : 'Find Events'}
+          </button>
+          {error && <p className="mb-2 text-[10px] text-red-400">{error}</p>}
+
+          {results && (
+            <ul className="flex-1 overflow-y-auto space-y-1 pr-1">
+              {results.length === 0 && <li className="text-xs text-gray-500">No events in this range.</li>}
+              {results.map(event => (
+                <li key={`${event.kind}:${event.julianDate}:${event.bodies.join()}`}>
+                  <button
+                    onClick={() => goToEvent(event)}
+                    className={`w-full text-left px-2 py-1 rounded border transition-colors ${selected === event ? 'border-cyan-500/60 bg-cyan-500/20' : 'border-transparent hover:bg-white/5'}`}
+                  >
+                    <div className="flex justify-between gap-2 text-[10px] uppercase tracking-wider">
+                      <span className="font-mono text-cyan-300">{formatJulianDate(event.julianDate)}</span>
+                      <span className="text-purple-400">{SKY_EVENT_LABELS[event.kind].replace(/s$/, '')}</span>
+                    </div>
+                    <div className="text-xs text-white">{event.title}</div>
+                    <div className="text-[10px] text-gray-400">{event.detail}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EventFinder;
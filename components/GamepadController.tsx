@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState, ControlMode } from '../types';
+import {
+  DEFAULT_GAMEPAD_MAPPING,
+  GAMEPAD_AXIS_LABELS,
+  GAMEPAD_BUTTON_LABELS,
+  GamepadAxisAction,
+  GamepadButtonAction,
+  GamepadInput,
+  buttonValue,
+  detectGamepadInput,
+  firstGamepad,
+  readGamepadAxes
+} from '../utils/gamepad';
+import { X } from 'lucide-react';
+
+interface GamepadControllerProps {
+  appState: AppState;
+  inputRef: React.MutableRefObject<GamepadInput>;
+}
+
+type LearnTarget =
+  | { type: 'axis'; action: GamepadAxisAction }
+  | { type: 'button'; action: GamepadButtonAction };
+
+const TIME_SCRUB_RATE = 2; // Time scale change per second with a trigger fully pressed
+const MAX_SPEED = 5; // Matches the Time Scale slider
+
+// Polls the first connected gamepad in GAMEPAD mode. Stick positions go to the
+// camera through inputRef; button presses act on the app state directly.
+const GamepadController: React.FC<GamepadControllerProps> = ({ appState, inputRef }) => {
+  const [padName, setPadName] = useState<string | null>(() => firstGamepad()?.id ?? null);
+  const [learning, setLearning] = useState<LearnTarget | null>(null);
+  const isGamepadMode = appState.controlMode === ControlMode.GAMEPAD;
+
+  // The poll loop is started once per mode change, so it reads the latest state through refs
+  const appStateRef = useRef(appState);
+  appStateRef.current = appState;
+  const learningRef = useRef(learning);
+  learningRef.current = learning;
+
+  // Hot-plug: browsers only report a pad after one of its buttons is pressed
+  useEffect(() => {
+    const update = () => setPadName(firstGamepad()?.id ?? null);
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    const release = () => {
+      input.orbit.x = 0;
+      input.orbit.y = 0;
+      input.zoom = 0;
+    };
+    if (!isGamepadMode) {
+      release();
+      return;
+    }
+
+    let frame = 0;
+    let lastTime = performance.now();
+    const wasPressed: Partial<Record<GamepadButtonAction, boolean>> = {};
+    let scrubbedSpeed: number | null = null; // Unrounded while a trigger is held
+
+    const poll = (time: number) => {
+      const seconds = (time - lastTime) / 1000;
+      lastTime = time;
+      const pad = firstGamepad();
+      input.connected = !!pad;
+      const state = appStateRef.current;
+
+      if (!pad || learningRef.current) {
+        // Nothing acts while a control is being remapped
+        release();
+      } else {
+        const mapping = state.gamepadMapping;
+        Object.assign(input, readGamepadAxes(pad, mapping));
+
+        const pressed = (action: GamepadButtonAction) => buttonValue(pad, mapping.buttons[action]) > 0.5;
+        const justPressed = (action: GamepadButtonAction) => pressed(action) && !wasPressed[action];
+
+        const bodies = state.bodies;
+        const index = bodies.findIndex(b => b.id === state.focusedBody);
+        if (justPressed('nextBody')) {
+          state.setFocusedBody(bodies[(index + 1) % bodies.length].id);
+        } else if (justPressed('previousBody')) {
+          state.setFocusedBody(bodies[index <= 0 ? bodies.length - 1 : index - 1].id);
+        }
+        if (justPressed('resetView')) state.setFocusedBody(null);
+
+        // Triggers scrub the time scale, applied in the slider's 0.1 steps
+        const scrub = buttonValue(pad, mapping.buttons.faster) - buttonValue(pad, mapping.buttons.slower);
+        if (Math.abs(scrub) > mapping.deadZone) {
+          scrubbedSpeed ??= state.simulationSpeed;
+          scrubbedSpeed = Math.max(-MAX_SPEED, Math.min(MAX_SPEED, scrubbedSpeed + scrub * TIME_SCRUB_RATE * seconds));
+          const speed = Math.round(scrubbedSpeed * 10) / 10;
+          if (speed !== state.simulationSpeed) state.setSimulationSpeed(speed);
+        } else {
+          scrubbedSpeed = null;
+        }
+
+        (Object.keys(GAMEPAD_BUTTON_LABELS) as GamepadButtonAction[]).forEach(action => {
+          wasPressed[action] = pressed(action);
+        });
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => {
+      cancelAnimationFrame(frame);
+      release();
+    };
+  }, [isGamepadMode, inputRef]);
+
+  // Remapping: waits for every button to be let go, then takes the next press or stick push
+  useEffect(() => {
+    if (!learning) return;
+    let frame = 0;
+    let rest: number[] | null = null;
+    let armed = false;
+
+    const poll = () => {
+      const pad = firstGamepad();
+      if (pad) {
+        rest ??= [...pad.axes];
+        armed ||= pad.buttons.every(b => !b.pressed);
+        const detected = armed ? detectGamepadInput(pad, rest) : null;
+        if (detected && detected.type === learning.type) {
+          const mapping = appStateRef.current.gamepadMapping;
+          appStateRef.current.setGamepadMapping(learning.type === 'axis'
+            ? { ...mapping, axes: { ...mapping.axes, [learning.action]: detected.index } }
+            : { ...mapping, buttons: { ...mapping.buttons, [learning.action]: detected.index } });
+          setLearning(null);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [learning]);
+
+  // Mapping needs the controller live
+  useEffect(() => {
+    if (!isGamepadMode && appState.isMappingGamepad) appState.setIsMappingGamepad(false);
+    if (!appState.isMappingGamepad) setLearning(null);
+  }, [isGamepadMode, appState.isMappingGamepad]);
+
+  if (!isGamepadMode) return null;
+
+  const mapping = appState.gamepadMapping;
+  const isLearning = (target: LearnTarget) => learning?.type === target.type && learning.action === target.action;
+
+  const bindingRow = (target: LearnTarget, label: string, binding: string) => (
+    <li key={`${target.type}-${target.action}`} className="flex justify-between items-center text-xs text-gray-300">
+      <span>{label}</span>
+      <button
+        onClick={() => setLearning(isLearning(target) ? null : target)}
+        disabled={!padName}
+        className={`px-1.5 py-0.5 rounded border text-[10px] font-mono disabled:opacity-40 ${isLearning(target) ? 'border-cyan-400 text-cyan-300 animate-pulse' : 'border-gray-600 bg-gray-800 text-gray-200 hover:border-cyan-500/60'}`}
+        title="Click, then use the control on the gamepad"
+      >
+        {isLearning(target) ? (target.type === 'axis' ? 'Move a stick…' : 'Press a button…') : binding}
+      </button>
+    </li>
+  );
+
+  return (
+    <>
+      <div className="absolute bottom-4 left-4 z-50 p-2 bg-black/50 rounded text-xs font-mono pointer-events-none">
+        <div className="flex items-center gap-2">
+          <span className={`w-2 h-2 rounded-full ${padName ? 'bg-green-400' : 'bg-amber-400 animate-pulse'}`} />
+          <span className={padName ? 'text-cyan-400 max-w-[16rem] truncate' : 'text-amber-300'}>
+            {padName ?? 'No controller. Connect one and press any button.'}
+          </span>
+        </div>
+        <div className="mt-1 text-[10px] text-gray-400">
+          Sticks: Orbit / Zoom | Shoulders: Bodies | Triggers: Time
+        </div>
+      </div>
+
+      {appState.isMappingGamepad && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto">
+          <div className="bg-gray-900 border border-cyan-500 rounded-lg p-6 w-[90%] max-w-sm shadow-2xl">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-cyan-400">Controller Mapping</h2>
+              <button onClick={() => appState.setIsMappingGamepad(false)} className="text-gray-500 hover:text-red-400">
+                <X size={18} />
+              </button>
+            </div>
+            {!padName && <p className="mb-3 text-xs text-amber-300">Connect a controller and press any button to start mapping.</p>}
+
+            <h3 className="text-[10px] uppercase tracking-widest text-purple-400 mb-2">Sticks</h3>
+            <ul className="space-y-1 mb-4">
+              {(Object.keys(GAMEPAD_AXIS_LABELS) as GamepadAxisAction[]).map(action => (
+                bindingRow({ type: 'axis', action }, GAMEPAD_AXIS_LABELS[action], `Axis ${mapping.axes[action]}`)
+              ))}
+            </ul>
+
+            <h3 className="text-[10px] uppercase tracking-widest text-purple-400 mb-2">Buttons</h3>
+            <ul className="space-y-1 mb-4">
+              {(Object.keys(GAMEPAD_BUTTON_LABELS) as GamepadButtonAction[]).map(action => (
+                bindingRow({ type: 'button', action }, GAMEPAD_BUTTON_LABELS[action], `Button ${mapping.buttons[action]}`)
+              ))}
+            </ul>
+
+            <div className="mb-3">
+              <div className="flex justify-between mb-1">
+                <label className="text-xs text-gray-400">Dead Zone</label>
+                <span className="text-xs text-cyan-400">{Math.round(mapping.deadZone * 100)}%</span>
+              </div>
+              <input
+                type="range" min="0" max="0.5" step="0.01"
+                value={mapping.deadZone}
+                onChange={(e) => appState.setGamepadMapping({ ...mapping, deadZone: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 mb-4 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mapping.invertY}
+                onChange={(e) => appState.setGamepadMapping({ ...mapping, invertY: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Invert vertical orbit
+            </label>
+
+            <button
+              onClick={() => appState.setGamepadMapping(DEFAULT_GAMEPAD_MAPPING)}
+              className="w-full py-1 text-xs border border-red-500/30 rounded text-red-400 hover:bg-red-500/20"
+            >
+              Reset Mapping
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GamepadController;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CalibrationPose,
+  CalibrationSamples,
+  GestureCalibration,
+  Handedness,
+  HandednessPreference,
+  Landmark,
+  computeCalibration
+} from '../utils/handPose';
+
+export type CalibrationFrame = {
+  landmarks: Landmark[];
+  handedness: Handedness | null;
+  time: number;
+};
+
+interface GestureCalibrationWizardProps {
+  frameRef: React.MutableRefObject<CalibrationFrame | null>;
+  calibration: GestureCalibration;
+  onComplete: (calibration: GestureCalibration) => void;
+  onCancel: () => void;
+}
+
+type Step = 'hand' | CalibrationPose | 'review';
+
+const POSES: { pose: CalibrationPose; title: string; instruction: string }[] = [
+  { pose: 'palm', title: 'Open Palm', instruction: 'Spread all fingers and hold your hand still, facing the camera.' },
+  { pose: 'fist', title: 'Fist', instruction: 'Close your hand into a relaxed fist.' },
+  { pose: 'point', title: 'Pointing', instruction: 'Point with your index finger, other fingers curled.' },
+];
+
+const CAPTURE_MS = 1500;
+const SAMPLE_INTERVAL_MS = 30;
+
+const GestureCalibrationWizard: React.FC<GestureCalibrationWizardProps> = ({ frameRef, calibration, onComplete, onCancel }) => {
+  const [step, setStep] = useState<Step>('hand');
+  const [handedness, setHandedness] = useState<HandednessPreference>(calibration.handedness);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<GestureCalibration | null>(null);
+  const [detectedHand, setDetectedHand] = useState<Handedness | null>(null);
+  const samplesRef = useRef<CalibrationSamples>({ palm: [], fist: [], point: [] });
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Show which hand the tracker currently sees, to help pick the preference
+  useEffect(() => {
+    const interval = setInterval(() => setDetectedHand(frameRef.current?.handedness ?? null), 250);
+    return () => {
+      clearInterval(interval);
+      if (timerRef.current) clearInterval(timerRef.current);
+    };
+  }, [frameRef]);
+
+  const nextStep = (pose: CalibrationPose) => {
+    const index = POSES.findIndex(p => p.pose === pose);
+    if (index < POSES.length - 1) {
+      setStep(POSES[index + 1].pose);
+      return;
+    }
+    try {
+      setResult(computeCalibration(samplesRef.current, { ...calibration, handedness }));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    setStep('review');
+  };
+
+  const capture = (pose: CalibrationPose) => {
+    const samples: Landmark[][] = [];
+    let lastTime = -1;
+    const start = Date.now();
+    setProgress(0);
+
+    timerRef.current = setInterval(() => {
+      const frame = frameRef.current;
+      // Only keep new frames from the preferred hand
+      if (frame && frame.time !== lastTime && (handedness === 'auto' || frame.handedness === handedness)) {
+        samples.push(frame.landmarks);
+        lastTime = frame.time;
+      }
+      const elapsed = Date.now() - start;
+      setProgress(Math.min(1, elapsed / CAPTURE_MS));
+      if (elapsed >= CAPTURE_MS) {
+        if (timerRef.current) clearInterval(timerRef.current);
+        timerRef.current = null;
+        samplesRef.current = { ...samplesRef.current, [pose]: samples };
+        setProgress(null);
+        nextStep(pose);
+      }
+    }, SAMPLE_INTERVAL_MS);
+  };
+
+  const restart = () => {
+    samplesRef.current = { palm: [], fist: [], point: [] };
+    setResult(null);
+    setError(null);
+    setStep('palm');
+  };
+
+  const currentPose = POSES.find(p => p.pose === step);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="bg-gray-900 border border-cyan-500 rounded-lg p-6 w-full max-w-sm shadow-2xl">
+        <h2 className="text-xl font-bold text-cyan-400 mb-1">Gesture Calibration</h2>
+        <div className="text-[10px] text-gray-500 uppercase tracking-widest mb-4">
+          Detected hand: {detectedHand ?? 'none'}
+        </div>
+
+        {step === 'hand' && (
+          <>
+            <p className="text-gray-300 text-sm mb-4">Which hand will you use for pointing and rotating?</p>
+            <div className="flex text-xs border border-gray-700 rounded overflow-hidden mb-6">
+              {(['auto', 'Left', 'Right'] as HandednessPreference[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setHandedness(option)}
+                  className={`flex-1 py-2 uppercase ${handedness === option ? 'bg-cyan-900/80 text-cyan-200' : 'bg-black/50 text-gray-500 hover:bg-gray-800'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setStep('palm')}
+              className="w-full py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors"
+            >
+              Start
+            </button>
+          </>
+        )}
+
+        {currentPose && (
+          <>
+            <div className="text-xs text-purple-400 mb-1">
+              Step {POSES.indexOf(currentPose) + 1} of {POSES.length}
+            </div>
+            <h3 className="text-lg font-bold text-white mb-2">{currentPose.title}</h3>
+            <p className="text-gray-300 text-sm mb-6">{currentPose.instruction}</p>
+            {progress !== null ? (
+              <div className="w-full h-2 bg-gray-800 rounded overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-[width]" style={{ width: `${progress * 100}%` }} />
+              </div>
+            ) : (
+              <button
+                onClick={() => capture(currentPose.pose)}
+                className="w-full py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors"
+              >
+                Capture
+              </button>
+            )}
+          </>
+        )}
+
+        {step === 'review' && (
+          <>
+            {error ? (
+              <p className="text-red-400 text-sm mb-6">{error}</p>
+            ) : (
+              <p className="text-gray-300 text-sm mb-6">Calibration complete. Your thresholds will be saved on this device.</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={restart}
+                className="flex-1 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
+              >
+                Retry
+              </button>
+              {result && (
+                <button
+                  onClick={() => onComplete(result)}
+                  className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold transition-colors"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        <button onClick={onCancel} className="w-full mt-3 text-xs text-red-400 hover:text-red-300">[CANCEL]</button>
+      </div>
+    </div>
+  );
+};
+
+export default GestureCalibrationWizard;
@@ -1,62 +1,102 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { AppState, ControlMode } from '../types';
-import * as THREE from 'three';
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { AppState, ControlMode, HandGesture } from '../types';
+import { resolveHandedness, selectPrimaryHand } from '../utils/handPose';
+import { LandmarkFrame, createGestureRecognizer } from '../utils/gestureRecognizer';
+import {
+    LandmarkRecorder,
+    LandmarkRecording,
+    createLandmarkRecorder,
+    downloadLandmarkRecording,
+    parseLandmarkRecording,
+    startLandmarkReplay
+} from '../utils/landmarkRecording';
+import GestureCalibrationWizard, { CalibrationFrame } from './GestureCalibrationWizard';
+import { HandTrackingStatus, describeStatus, loadHandLandmarker } from '../utils/handLandmarkerLoader';
 
 interface HandControllerProps {
     appState: AppState;
     onGesture: (gesture: HandGesture) => void;
 }
 
-export type HandGesture = {
-    type: 'NONE' | 'ROTATE' | 'ZOOM' | 'FOCUS' | 'EXIT_FOCUS';
-    value?: any; // Delta for rotate/zoom, position for focus
-};
-
 const HandController: React.FC<HandControllerProps> = ({ appState, onGesture }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const [isLoaded, setIsLoaded] = useState(false);
     const handLandmarkerRef = useRef<HandLandmarker | null>(null);
     const requestRef = useRef<number>(0);
     const [debugInfo, setDebugInfo] = useState<string>('Initializing Hand Tracking...');
+    const [loadStatus, setLoadStatus] = useState<HandTrackingStatus>({ stage: 'wasm' });
+    const [loadAttempt, setLoadAttempt] = useState(0);
+
+    // The prediction loop is started once, so it reads the latest props through refs
+    const onGestureRef = useRef(onGesture);
+    onGestureRef.current = onGesture;
+    const calibrationRef = useRef(appState.gestureCalibration);
+    calibrationRef.current = appState.gestureCalibration;
+    const isCalibratingRef = useRef(appState.isCalibrating);
+    isCalibratingRef.current = appState.isCalibrating;
+
+    // Gesture recognition keeps its own smoothing state between frames
+    const recognizerRef = useRef(createGestureRecognizer(() => calibrationRef.current));
+
+    // Landmark recording and replay
+    const recorderRef = useRef<LandmarkRecorder | null>(null);
+    const [isRecording, setIsRecording] = useState(false);
+    const [replay, setReplay] = useState<LandmarkRecording | null>(null);
 
-    // State for gesture smoothing and logic
-    const lastHandPos = useRef<{ x: number, y: number } | null>(null);
-    const lastPinchDist = useRef<number | null>(null);
-    const gestureHoldStart = useRef<number>(0);
+    // Latest primary-hand frame, sampled by the calibration wizard
+    const latestFrameRef = useRef<CalibrationFrame | null>(null);
 
     useEffect(() => {
+        let cancelled = false;
+        const onStatus = (status: HandTrackingStatus) => {
+            if (cancelled) return;
+            setLoadStatus(status);
+            setDebugInfo(describeStatus(status));
+        };
+
         const init = async () => {
             try {
-                const vision = await FilesetResolver.forVisionTasks(
-                    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-                );
-                handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-                    baseOptions: {
-                        modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-                        delegate: "GPU"
-                    },
-                    runningMode: "VIDEO",
-                    numHands: 2
-                });
+                const landmarker = await loadHandLandmarker(onStatus);
+                if (cancelled) {
+                    landmarker.close();
+                    return;
+                }
+                handLandmarkerRef.current = landmarker;
                 setIsLoaded(true);
-                setDebugInfo('Hand Tracking Ready. Enable Hand Mode to start.');
             } catch (error) {
                 console.error("Error initializing hand landmarker:", error);
-                setDebugInfo('Error initializing hand tracking.');
+                onStatus({ stage: 'error', message: error instanceof Error ? error.message : 'Error initializing hand tracking.' });
             }
         };
         init();
-    }, []);
+        return () => {
+            cancelled = true;
+        };
+    }, [loadAttempt]);
 
     useEffect(() => {
-        if (appState.controlMode === ControlMode.HAND && isLoaded) {
-            startWebcam();
-        } else {
+        recognizerRef.current.reset();
+        if (appState.controlMode !== ControlMode.HAND) {
             stopWebcam();
+            return;
+        }
+
+        // A loaded recording replaces the camera entirely, so no model or webcam is needed
+        if (replay) {
+            setDebugInfo(`Replaying ${replay.frames.length} frames`);
+            const stopReplay = startLandmarkReplay(replay, handleFrame, { loop: true });
+            return () => {
+                stopReplay();
+                onGestureRef.current({ type: 'NONE' });
+            };
+        }
+
+        if (isLoaded) {
+            startWebcam();
         }
         return () => stopWebcam();
-    }, [appState.controlMode, isLoaded]);
+    }, [appState.controlMode, isLoaded, replay]);
 
     const startWebcam = async () => {
         if (!videoRef.current) return;
@@ -88,121 +128,138 @@ const HandController: React.FC<HandControllerProps> = ({ appState, onGesture })
         const nowInMs = Date.now();
         const results = handLandmarkerRef.current.detectForVideo(videoRef.current, nowInMs);
 
-        if (results.landmarks && results.landmarks.length > 0) {
-            processGestures(results.landmarks);
-        } else {
-            onGesture({ type: 'NONE' });
-            setDebugInfo('No hand detected');
-            lastHandPos.current = null;
-            lastPinchDist.current = null;
-        }
+        handleFrame({
+            time: nowInMs,
+            landmarks: results.landmarks ?? [],
+            handedness: (results.handedness ?? []).map(categories => resolveHandedness(categories[0]?.categoryName))
+        });
 
         requestRef.current = requestAnimationFrame(predictWebcam);
     };
 
-    const processGestures = (landmarksList: any[]) => {
-        // 1. TWO HANDS ZOOM
-        if (landmarksList.length === 2) {
-            const hand1 = landmarksList[0][0]; // Wrist of hand 1
-            const hand2 = landmarksList[1][0]; // Wrist of hand 2
-
-            const dist = Math.sqrt(Math.pow(hand1.x - hand2.x, 2) + Math.pow(hand1.y - hand2.y, 2));
-
-            if (lastPinchDist.current !== null) {
-                const delta = dist - lastPinchDist.current;
-                if (Math.abs(delta) > 0.005) {
-                    // Invert delta because moving hands apart usually means zoom in (or out depending on preference)
-                    // Let's say Apart = Zoom In (Move closer to object), Together = Zoom Out
-                    // Scene3D logic: Zoom value subtracted from distance. So Positive Value = Zoom In.
-                    // Delta > 0 (Apart) -> Zoom In.
-                    onGesture({ type: 'ZOOM', value: delta * 20 });
-                    setDebugInfo(`Gesture: 2-HAND ZOOM ${delta > 0 ? 'IN' : 'OUT'}`);
-                }
-            }
-            lastPinchDist.current = dist;
-            lastHandPos.current = null; // Reset single hand tracking
-            return;
+    // Shared by the camera and replay sources
+    const handleFrame = (frame: LandmarkFrame) => {
+        recorderRef.current?.addFrame(frame);
+
+        if (frame.landmarks.length > 0) {
+            const primary = selectPrimaryHand(frame.handedness, calibrationRef.current.handedness);
+            latestFrameRef.current = {
+                landmarks: frame.landmarks[primary],
+                handedness: frame.handedness[primary] ?? null,
+                time: frame.time
+            };
         } else {
-            lastPinchDist.current = null;
+            latestFrameRef.current = null;
         }
 
-        // Single Hand Processing
-        const landmarks = landmarksList[0];
-        const thumbTip = landmarks[4];
-        const indexTip = landmarks[8];
-        const middleTip = landmarks[12];
-        const ringTip = landmarks[16];
-        const pinkyTip = landmarks[20];
-        const wrist = landmarks[0];
-
-        // Check Finger States (Extended if tip Y < lower joint Y, assuming hand upright)
-        // Better: Distance from wrist.
-        const isExtended = (tip: any, joint: any) => {
-            const dTip = Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
-            const dJoint = Math.sqrt(Math.pow(joint.x - wrist.x, 2) + Math.pow(joint.y - wrist.y, 2));
-            return dTip > dJoint;
-        };
-
-        // Simple Y check (works for upright hand)
-        const indexExt = landmarks[8].y < landmarks[6].y;
-        const middleExt = landmarks[12].y < landmarks[10].y;
-        const ringExt = landmarks[16].y < landmarks[14].y;
-        const pinkyExt = landmarks[20].y < landmarks[18].y;
-
-        // 2. ROTATE: Two Fingers (Victory/Peace Sign)
-        // Index & Middle Extended, Ring & Pinky Curled
-        const isVictory = indexExt && middleExt && !ringExt && !pinkyExt;
-
-        if (isVictory) {
-            const x = wrist.x;
-            const y = wrist.y;
-            if (lastHandPos.current) {
-                const deltaX = x - lastHandPos.current.x;
-                const deltaY = y - lastHandPos.current.y;
-
-                if (Math.abs(deltaX) > 0.002 || Math.abs(deltaY) > 0.002) {
-                    onGesture({ type: 'ROTATE', value: { x: deltaX, y: deltaY } });
-                    setDebugInfo('Gesture: 2-FINGER ROTATE');
-                }
-            }
-            lastHandPos.current = { x, y };
+        if (isCalibratingRef.current) {
+            // Poses held during calibration must not steer the camera
+            recognizerRef.current.reset();
+            onGestureRef.current({ type: 'NONE' });
             return;
         }
 
-        // 3. EXIT FOCUS: Open Palm
-        const isPalmOpen = indexExt && middleExt && ringExt && pinkyExt;
-        if (isPalmOpen) {
-            if (Date.now() - gestureHoldStart.current > 1000) {
-                onGesture({ type: 'EXIT_FOCUS' });
-                setDebugInfo('Gesture: EXIT FOCUS');
-                gestureHoldStart.current = Date.now();
-                return;
-            }
+        const { gesture, label } = recognizerRef.current.process(frame);
+        if (gesture) onGestureRef.current(gesture);
+        setDebugInfo(label);
+    };
+
+    const toggleRecording = () => {
+        if (recorderRef.current) {
+            const recording = recorderRef.current.finish();
+            recorderRef.current = null;
+            setIsRecording(false);
+            if (recording.frames.length > 0) downloadLandmarkRecording(recording);
         } else {
-            gestureHoldStart.current = Date.now();
+            recorderRef.current = createLandmarkRecorder();
+            setIsRecording(true);
         }
+    };
 
-        // 4. POINTER: Index only
-        const isPointing = indexExt && !middleExt && !ringExt && !pinkyExt;
-        if (isPointing) {
-            onGesture({ type: 'FOCUS', value: { x: 1 - indexTip.x, y: indexTip.y } });
-            setDebugInfo('Gesture: POINTER');
-            lastHandPos.current = { x: wrist.x, y: wrist.y };
-            return;
+    const loadReplayFile = async (file: File) => {
+        try {
+            setReplay(parseLandmarkRecording(await file.text()));
+        } catch (error) {
+            setDebugInfo(`Replay error: ${error instanceof Error ? error.message : String(error)}`);
         }
-
-        setDebugInfo('Hand Detected. Use Gestures.');
-        lastHandPos.current = { x: wrist.x, y: wrist.y };
     };
 
+    // Calibration needs the live camera feed
+    useEffect(() => {
+        if (appState.controlMode !== ControlMode.HAND && appState.isCalibrating) {
+            appState.setIsCalibrating(false);
+        }
+    }, [appState.controlMode, appState.isCalibrating]);
+
     return (
-        <div className={`absolute bottom-4 left-4 z-50 p-2 bg-black/50 rounded text-xs text-cyan-400 font-mono pointer-events-none ${appState.controlMode === ControlMode.HAND ? 'opacity-100' : 'opacity-0'}`}>
-            <video ref={videoRef} className="w-32 h-24 -scale-x-100 opacity-50 mb-2 border border-cyan-800" autoPlay playsInline muted />
-            <div>{debugInfo}</div>
-            <div className="mt-1 text-[10px] text-gray-400">
-                2 Fingers: Rotate | 2 Hands: Zoom | Point: Cursor | Palm: Exit
+        <>
+            <div className={`absolute bottom-4 left-4 z-50 p-2 bg-black/50 rounded text-xs text-cyan-400 font-mono pointer-events-none ${appState.controlMode === ControlMode.HAND ? 'opacity-100' : 'opacity-0'}`}>
+                <video ref={videoRef} className="w-32 h-24 -scale-x-100 opacity-50 mb-2 border border-cyan-800" autoPlay playsInline muted />
+                <div className={loadStatus.stage === 'error' ? 'text-red-400' : undefined}>{debugInfo}</div>
+                {loadStatus.stage === 'model' && loadStatus.progress !== null && (
+                    <div className="mt-1 w-32 h-1 bg-gray-800 rounded overflow-hidden">
+                        <div className="h-full bg-cyan-500" style={{ width: `${loadStatus.progress * 100}%` }} />
+                    </div>
+                )}
+                {appState.controlMode === ControlMode.HAND && (
+                    <div className="mt-1 flex gap-1 pointer-events-auto">
+                        <button
+                            onClick={toggleRecording}
+                            disabled={!!replay}
+                            className={`px-2 py-0.5 border rounded disabled:opacity-30 ${isRecording ? 'border-red-500 text-red-400 bg-red-500/20' : 'border-cyan-800 text-gray-400 hover:text-cyan-300'}`}
+                            title="Record landmarks to a JSON file"
+                        >
+                            {isRecording ? '■ Stop Rec' : '● Rec'}
+                        </button>
+                        {replay ? (
+                            <button
+                                onClick={() => setReplay(null)}
+                                className="px-2 py-0.5 border border-purple-500 rounded text-purple-400 bg-purple-500/20"
+                            >
+                                ■ Stop Replay
+                            </button>
+                        ) : (
+                            <label className="px-2 py-0.5 border border-cyan-800 rounded text-gray-400 hover:text-cyan-300 cursor-pointer" title="Replay a landmark recording instead of the camera">
+                                ▶ Replay
+                                <input
+                                    type="file"
+                                    accept="application/json,.json"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) loadReplayFile(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        )}
+                    </div>
+                )}
+                {loadStatus.stage === 'error' && appState.controlMode === ControlMode.HAND && (
+                    <button
+                        onClick={() => setLoadAttempt(attempt => attempt + 1)}
+                        className="mt-1 px-2 py-0.5 border border-red-500/50 rounded text-red-400 hover:bg-red-500/20 pointer-events-auto"
+                    >
+                        Retry
+                    </button>
+                )}
+                <div className="mt-1 text-[10px] text-gray-400">
+                    2 Fingers: Rotate | 2 Hands: Zoom | Point: Cursor (hold or pinch to select) | Palm: Exit
+                </div>
             </div>
-        </div>
+
+            {appState.isCalibrating && appState.controlMode === ControlMode.HAND && (
+                <GestureCalibrationWizard
+                    frameRef={latestFrameRef}
+                    calibration={appState.gestureCalibration}
+                    onComplete={(calibration) => {
+                        appState.setGestureCalibration(calibration);
+                        appState.setIsCalibrating(false);
+                    }}
+                    onCancel={() => appState.setIsCalibrating(false)}
+                />
+            )}
+        </>
     );
 };
 
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { HandPointerState } from '../types';
+
+interface HandCursorProps {
+  pointerRef: React.MutableRefObject<HandPointerState>;
+  enabled: boolean;
+}
+
+// DOM cursor that follows the index finger in hand mode.
+// Reads the shared pointer ref on every animation frame and writes styles
+// directly, so tracking never goes through a React render.
+const HandCursor: React.FC<HandCursorProps> = ({ pointerRef, enabled }) => {
+  const cursorRef = useRef<HTMLDivElement>(null);
+  const ringRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+
+    const update = () => {
+      const pointer = pointerRef.current;
+      const cursor = cursorRef.current;
+      const ring = ringRef.current;
+      if (cursor && ring) {
+        cursor.style.opacity = pointer.active ? '1' : '0';
+        cursor.style.transform = `translate(${pointer.x * window.innerWidth}px, ${pointer.y * window.innerHeight}px) translate(-50%, -50%) scale(${pointer.pinching ? 0.8 : 1})`;
+
+        const color = pointer.hoveredBody ? '#ffffff' : '#00e0ff';
+        const progress = Math.round(pointer.dwellProgress * 360);
+        ring.style.borderColor = color;
+        ring.style.background = `conic-gradient(${color}aa ${progress}deg, transparent ${progress}deg)`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled, pointerRef]);
+
+  if (!enabled) return null;
+
+  return (
+    <div
+      ref={cursorRef}
+      className="absolute top-0 left-0 z-40 pointer-events-none opacity-0 transition-opacity duration-150"
+    >
+      <div
+        ref={ringRef}
+        className="w-8 h-8 rounded-full border-2 shadow-[0_0_12px_rgba(0,224,255,0.8)]"
+      />
+      <div className="absolute top-1/2 left-1/2 w-1.5 h-1.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white" />
+    </div>
+  );
+};
+
+export default HandCursor;
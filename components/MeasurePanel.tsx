@@ -0,0 +1,111 @@
+import React from 'react';
+import { AppState } from '../types';
+import { useSimulationDate } from '../hooks/useSimulationDate';
+import { J2000 } from '../utils/simulationClock';
+import { Measurement, measureSeparation, measurementId } from '../utils/measurements';
+import { formatAU, formatLightTime } from '../utils/units';
+import { Pin, X } from 'lucide-react';
+
+interface MeasurePanelProps {
+  appState: AppState;
+}
+
+// Picks two bodies and reads out their live separation and light travel time.
+// Pinned measurements keep their line and label in the scene after the panel closes.
+const MeasurePanel: React.FC<MeasurePanelProps> = ({ appState }) => {
+  const julianDate = useSimulationDate(appState.simulationClock);
+  const days = julianDate - J2000;
+  const { bodies, measurement, pinnedMeasurements } = appState;
+
+  const nameOf = (id: string) => bodies.find(b => b.id === id)?.name ?? id;
+  const separation = measureSeparation(bodies, measurement, days);
+  const isPinned = pinnedMeasurements.some(m => measurementId(m) === measurementId(measurement));
+  const canPin = measurement.from !== measurement.to && !isPinned;
+
+  const bodySelect = (key: keyof Measurement, label: string) => (
+    <div className="mb-3">
+      <label className="text-xs text-gray-400 mb-1 block">{label}</label>
+      <select
+        value={measurement[key]}
+        onChange={(e) => appState.setMeasurement({ ...measurement, [key]: e.target.value })}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+      >
+        {bodies.map(body => <option key={body.id} value={body.id}>{body.name}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div
+      data-capture-ignore
+      className="absolute top-20 right-4 w-64 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-4 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-50"
+    >
+      <div className="flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+        <h3 className="text-cyan-400 font-bold uppercase text-sm">Measure</h3>
+        <button onClick={() => appState.setIsMeasuring(false)} className="text-gray-500 hover:text-red-400">
+          <X size={16} />
+        </button>
+      </div>
+
+      {bodySelect('from', 'From')}
+      {bodySelect('to', 'To')}
+
+      <div className="mb-4 p-2 rounded border border-gray-800 bg-gray-900/60 text-xs">
+        {separation && measurement.from !== measurement.to ? (
+          <>
+            <div className="text-gray-500 uppercase text-[10px]">Separation</div>
+            <div className="text-cyan-300 font-mono mb-2">{formatAU(separation.au, appState.unitSystem)}</div>
+            <div className="text-gray-500 uppercase text-[10px]">Light Travel Time</div>
+            <div className="text-purple-300 font-mono">{formatLightTime(separation.lightSeconds)}</div>
+          </>
+        ) : (
+          <div className="text-gray-500">Pick two different bodies.</div>
+        )}
+      </div>
+
+      <button
+        onClick={() => appState.setPinnedMeasurements([...pinnedMeasurements, measurement])}
+        disabled={!canPin}
+        className="w-full py-1 mb-4 flex items-center justify-center gap-2 text-xs rounded border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <Pin size={12} /> {isPinned ? 'Pinned' : 'Pin Measurement'}
+      </button>
+
+      {pinnedMeasurements.length > 0 && (
+        <>
+          <h4 className="text-[10px] uppercase tracking-widest text-purple-400 mb-2">Pinned</h4>
+          <ul className="space-y-1 mb-3">
+            {pinnedMeasurements.map(pinned => {
+              const pinnedSeparation = measureSeparation(bodies, pinned, days);
+              return (
+                <li key={measurementId(pinned)} className="flex justify-between items-center gap-2 text-xs text-gray-300">
+                  <button onClick={() => appState.setMeasurement(pinned)} className="truncate text-left hover:text-cyan-300">
+                    {nameOf(pinned.from)} → {nameOf(pinned.to)}
+                  </button>
+                  <span className="shrink-0 font-mono text-[10px] text-gray-500">
+                    {pinnedSeparation && formatLightTime(pinnedSeparation.lightSeconds)}
+                  </span>
+                  <button
+                    onClick={() => appState.setPinnedMeasurements(pinnedMeasurements.filter(m => m !== pinned))}
+                    className="shrink-0 text-gray-500 hover:text-red-400"
+                    title="Unpin"
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <button
+            onClick={() => appState.setPinnedMeasurements([])}
+            className="w-full py-1 text-xs border border-red-500/30 rounded text-red-400 hover:bg-red-500/20"
+          >
+            Clear Pinned
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MeasurePanel;
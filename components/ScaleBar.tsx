@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+import { UnitSystem } from '../utils/units';
+import { ScaleBarState, scaleBarLength } from '../utils/layers';
+
+interface ScaleBarProps {
+  scaleBarRef: React.MutableRefObject<ScaleBarState>;
+  unitSystem: UnitSystem;
+  enabled: boolean;
+}
+
+const MAX_BAR_WIDTH = 120; // px
+
+// Map-style scale bar for the distance the camera is looking at. Reads the
+// scene's measurement every animation frame and writes to the DOM directly.
+const ScaleBar: React.FC<ScaleBarProps> = ({ scaleBarRef, unitSystem, enabled }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let frame = 0;
+    let lastLabel = '';
+
+    const update = () => {
+      const { auPerPixel, approximate } = scaleBarRef.current;
+      const bar = barRef.current;
+      const label = labelRef.current;
+      if (bar && label && auPerPixel > 0) {
+        const length = scaleBarLength(auPerPixel * MAX_BAR_WIDTH, unitSystem);
+        bar.style.width = `${length.au / auPerPixel}px`;
+        const text = `${approximate ? '≈ ' : ''}${length.label}`;
+        if (text !== lastLabel) {
+          label.textContent = text;
+          lastLabel = text;
+        }
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled, scaleBarRef, unitSystem]);
+
+  if (!enabled) return null;
+
+  return (
+    <div className="absolute bottom-4 right-4 flex flex-col items-end gap-1 pointer-events-none">
+      <span ref={labelRef} className="text-[10px] font-mono text-cyan-300/80" />
+      <div ref={barRef} className="h-1.5 border-x border-b border-cyan-400/80 shadow-[0_2px_6px_rgba(0,255,255,0.3)]" />
+    </div>
+  );
+};
+
+export default ScaleBar;
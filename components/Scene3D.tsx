@@ -4,36 +4,198 @@ import { OrbitControls, Stars, Trail, Line } from '@react-three/drei';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import gsap from 'gsap';
-import { AppState, ControlMode } from '../types';
-import { PLANET_DATA, ASTEROID_COUNT, ASTEROID_BELT_RADIUS_MIN, ASTEROID_BELT_RADIUS_MAX } from '../constants';
+import { AppState, BeltData, CameraViewState, ControlMode, HandGesture, HandPointerState, MoonData, PlanetData } from '../types';
+import { GamepadInput } from '../utils/gamepad';
+import {
+  SCALE_MODE_CAMERA,
+  artisticRadiusToAU,
+  bodyRadius,
+  buildScaledOrbitPath,
+  placeOnScaledOrbit
+} from '../utils/scaleModes';
+import { TourProgress, tourStepDuration, tourStepStart } from '../utils/tours';
+import { CameraPathPlayback, cameraPathDuration, createCameraPathSampler } from '../utils/cameraPaths';
+import {
+  CaptureLayout,
+  SceneCapturer,
+  canvasToPng,
+  captureFileName,
+  createAnimationStepper,
+  downloadBlob,
+  frameFileName,
+  createFrameZip,
+  webmMimeType
+} from '../utils/capture';
+import { snapshotElement } from '../utils/domSnapshot';
+import { KeyAction, actionForKey, isFlightAction, isTypingTarget } from '../utils/keymap';
+import { ScaleBarState } from '../utils/layers';
+import { ProjectedBody } from '../utils/labels';
+import {
+  NO_RAYCAST,
+  createParticleShader,
+  particleGeometry,
+  particleSeedOffset,
+  scaleModeWeights
+} from '../utils/particles';
+import { useRegisteredBody } from '../hooks/useRegisteredBody';
+import SceneLayers from './SceneLayers';
 
 // --- Helper Components ---
 
+// useFrame priorities: the clock ticks first, then bodies move and sync the
+// registry, then everything at the default priority (camera, overlays) reads it
+const CLOCK_FRAME_PRIORITY = -2;
+const BODY_FRAME_PRIORITY = -1;
+
+// Advances the shared simulation clock once per frame, ahead of every body that reads it
+const SimulationClockDriver: React.FC<{ appState: AppState }> = ({ appState }) => {
+  useFrame((_, delta) => {
+    if (!appState.isPaused) {
+      appState.simulationClock.advance(delta, appState.simulationSpeed);
+    }
+  }, CLOCK_FRAME_PRIORITY);
+  return null;
+};
+
+// Points keep a fixed world size, so shrink them along with a scaled-down body
+const scalePointSizes = (root: THREE.Object3D, scale: number) => {
+  root.traverse(object => {
+    if (!(object instanceof THREE.Points)) return;
+    const material = object.material as THREE.PointsMaterial;
+    object.userData.baseSize ??= material.size;
+    material.size = object.userData.baseSize * Math.min(1, scale);
+  });
+};
+
+// Keeps a body's visual group sized for the current scale-mode blend and
+// returns that size. Point sizes are only touched when the blend changes.
+const useScaledBody = (appState: AppState, data: PlanetData, visualRef: React.RefObject<THREE.Group | null>) => {
+  const lastUpdate = useRef('');
+  return () => {
+    const transition = appState.scaleTransition;
+    const radius = transition.blend(m => bodyRadius(m, data));
+    const scale = radius / data.radius;
+    if (visualRef.current) {
+      visualRef.current.scale.setScalar(scale);
+      const key = `${transition.version}:${appState.particleDensity}`;
+      if (key !== lastUpdate.current) {
+        lastUpdate.current = key;
+        scalePointSizes(visualRef.current, scale);
+      }
+    }
+    appState.bodyRegistry.resize(data.id, radius);
+    return radius;
+  };
+};
+
+// Orbit path that re-samples itself while the scale mode morphs
+const OrbitLine: React.FC<{ data: PlanetData; appState: AppState; segments?: number; opacity: number }> = ({
+  data,
+  appState,
+  segments = 128,
+  opacity
+}) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const lastVersion = useRef(appState.scaleTransition.version);
+  const positions = useMemo(() => buildScaledOrbitPath(appState.scaleTransition, data, segments), [data, segments, appState.scaleTransition]);
+
+  useFrame(() => {
+    const { version } = appState.scaleTransition;
+    if (version === lastVersion.current || !geometryRef.current) return;
+    lastVersion.current = version;
+    buildScaledOrbitPath(appState.scaleTransition, data, segments, positions);
+    geometryRef.current.attributes.position.needsUpdate = true;
+    geometryRef.current.computeBoundingSphere();
+  });
+
+  return (
+    <line>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute
+          attach="attributes-position"
+          count={positions.length / 3}
+          array={positions}
+          itemSize={3}
+        />
+      </bufferGeometry>
+      <lineBasicMaterial color={data.color} transparent opacity={opacity} />
+    </line>
+  );
+};
+
+// Inner moons can orbit several times a second at fast time scales, which
+// aliases into stutter or backwards motion at 60fps. The drawn angle follows the
+// real one but moves at most this far per frame, catching up when time slows.
+const MAX_MOON_STEP = 0.15; // Radians per frame
+
+const stepMoonAngle = (last: { shown: number; real: number } | null, real: number): number => {
+  if (!last) return real;
+  const step = THREE.MathUtils.clamp(real - last.real, -MAX_MOON_STEP, MAX_MOON_STEP);
+  const shown = last.shown + step;
+  // Spend what's left of this frame's budget closing the gap to the real angle
+  const gap = THREE.MathUtils.euclideanModulo(real - shown + Math.PI, Math.PI * 2) - Math.PI;
+  const budget = MAX_MOON_STEP - Math.abs(step);
+  return shown + THREE.MathUtils.clamp(gap, -budget, budget);
+};
+
 const Moon: React.FC<{
+  moon: MoonData;
+  planetId: string;
   planetRadius: number;
-  distance: number;
-  speed: number;
-  color: string;
+  planetColor: string;
   appState: AppState;
-}> = ({ planetRadius, distance, speed, color, appState }) => {
+}> = ({ moon, planetId, planetRadius, planetColor, appState }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const [hovered, setHover] = useState(false);
+  const radius = planetRadius * moon.radius;
+  const distance = planetRadius * moon.distance;
+  const color = moon.color ?? planetColor;
+  const worldScale = useMemo(() => new THREE.Vector3(), []);
+
+  useRegisteredBody(appState.bodyRegistry, moon.id, meshRef, radius, planetId);
+
+  const angle = useRef<{ shown: number; real: number } | null>(null);
 
-  useFrame(({ clock }) => {
+  useFrame(() => {
     if (meshRef.current) {
-      const t = clock.getElapsedTime() * speed * appState.simulationSpeed * 0.5;
+      // Counter-clockwise from above, like the planets; inclinations past 90° make it retrograde
+      const real = THREE.MathUtils.degToRad(moon.phase ?? 0)
+        + (appState.simulationClock.daysSinceEpoch() / moon.period) * Math.PI * 2;
+      const t = stepMoonAngle(angle.current, real);
+      angle.current = { shown: t, real };
       meshRef.current.position.x = Math.cos(t) * distance;
-      meshRef.current.position.z = Math.sin(t) * distance;
+      meshRef.current.position.z = -Math.sin(t) * distance;
+      appState.bodyRegistry.sync(moon.id);
+      // Moon orbits stay relative to the parent's size, which the scale mode may change
+      appState.bodyRegistry.resize(moon.id, radius * meshRef.current.getWorldScale(worldScale).x);
     }
-  });
+  }, BODY_FRAME_PRIORITY);
+
+  const isHighlighted = hovered || appState.focusedBody === moon.id || appState.handHoveredBody === moon.id;
 
   return (
-    <group>
-      <mesh ref={meshRef}>
-        <sphereGeometry args={[planetRadius * 0.2, 8, 8]} />
-        <meshBasicMaterial color={color} />
-        {appState.particleDensity !== 'LOW' && (
+    <group rotation={[THREE.MathUtils.degToRad(moon.inclination ?? 0), 0, 0]}>
+      <mesh
+        ref={meshRef}
+        onClick={(e) => {
+          e.stopPropagation();
+          appState.setFocusedBody(moon.id);
+        }}
+        onPointerOver={(e) => {
+          e.stopPropagation();
+          document.body.style.cursor = 'pointer';
+          setHover(true);
+        }}
+        onPointerOut={() => {
+          document.body.style.cursor = 'auto';
+          setHover(false);
+        }}
+      >
+        <sphereGeometry args={[radius, 12, 12]} />
+        <meshBasicMaterial color={isHighlighted ? '#ffffff' : color} />
+        {appState.particleDensity !== 'LOW' && appState.scaleMode === 'ARTISTIC' && (
           <Trail
-            width={planetRadius * 0.15}
+            width={radius * 0.75}
             length={8}
             color={new THREE.Color(color)}
             attenuation={(t) => t * t}
@@ -49,55 +211,91 @@ const Moon: React.FC<{
   );
 };
 
+// Moons without a catalog entry, shown as a loose cloud beyond the named ones
+const MinorMoons: React.FC<{
+  count: number;
+  innerRadius: number;
+  outerRadius: number;
+  color: string;
+  appState: AppState;
+  seed: string;
+}> = ({ count, innerRadius, outerRadius, color, appState, seed }) => {
+  const shader = useMemo(() => createParticleShader('CLOUD', particleSeedOffset(seed)), [seed]);
+
+  useFrame(() => {
+    const { uniforms } = shader;
+    uniforms.uAngle.value = appState.simulationClock.elapsedSeconds() * 0.1;
+    uniforms.uInner.value = innerRadius;
+    uniforms.uOuter.value = outerRadius;
+  });
+
+  return (
+    <points geometry={particleGeometry(count)} frustumCulled={false} raycast={NO_RAYCAST}>
+      <pointsMaterial
+        size={0.12}
+        color={color}
+        transparent
+        opacity={0.5}
+        blending={THREE.AdditiveBlending}
+        onBeforeCompile={shader.onBeforeCompile}
+        customProgramCacheKey={shader.customProgramCacheKey}
+      />
+    </points>
+  );
+};
+
+const RING_PARTICLES = { LOW: 300, MEDIUM: 600, HIGH: 1200 };
+const RING_INNER = 1.4; // Ring edges in planet radii
+const RING_OUTER = 2.2;
+const RING_SPIN = 0.2; // Radians per second at the inner edge
+
 const Planet: React.FC<{
-  data: typeof PLANET_DATA[0];
+  data: PlanetData;
   appState: AppState;
   isMobile: boolean
 }> = ({ data, appState, isMobile }) => {
   const meshRef = useRef<THREE.Group>(null);
-  const particleRef = useRef<THREE.Points>(null);
+  const visualRef = useRef<THREE.Group>(null);
   const [hovered, setHover] = useState(false);
 
+  useRegisteredBody(appState.bodyRegistry, data.id, meshRef, data.radius);
+  const updateScale = useScaledBody(appState, data, visualRef);
+
+  // Points on the surface only, for the neon shell look; laid out on the GPU
+  const shellShader = useMemo(() => createParticleShader('SHELL', particleSeedOffset(data.id)), [data.id]);
+  const ringShader = useMemo(() => createParticleShader('RING', particleSeedOffset(`${data.id}:rings`)), [data.id]);
+
   // Logic for orbit
-  useFrame(({ clock }) => {
+  useFrame(() => {
     if (meshRef.current) {
       // Orbit
-      const t = clock.getElapsedTime() * data.speed * appState.simulationSpeed * 0.2;
+      const days = appState.simulationClock.daysSinceEpoch();
       // If it's the sun, it stays at 0,0,0
-      if (data.distance > 0) {
-        meshRef.current.position.x = Math.cos(t) * data.distance;
-        meshRef.current.position.z = Math.sin(t) * data.distance;
+      if (data.orbit && data.distance > 0) {
+        placeOnScaledOrbit(appState.scaleTransition, data, days, meshRef.current.position);
       }
+      updateScale();
 
-      // Rotation
-      if (particleRef.current) {
-        particleRef.current.rotation.y += data.rotationSpeed * (appState.simulationSpeed || 1);
-      }
+      // Rotation (rotationSpeed is radians per 60fps frame at 1x)
+      const elapsed = appState.simulationClock.elapsedSeconds();
+      shellShader.uniforms.uAngle.value = elapsed * 60 * data.rotationSpeed;
+      shellShader.uniforms.uInner.value = data.radius;
+      ringShader.uniforms.uAngle.value = elapsed * RING_SPIN;
+      ringShader.uniforms.uInner.value = data.radius * RING_INNER;
+      ringShader.uniforms.uOuter.value = data.radius * RING_OUTER;
+
+      appState.bodyRegistry.sync(data.id);
     }
-  });
+  }, BODY_FRAME_PRIORITY);
 
-  // Particle Geometry based on density settings
+  // Particle counts based on density settings; the shared geometries make switching free
   const particleCount = useMemo(() => {
     const base = isMobile ? 200 : 800;
     const multipliers = { LOW: 0.5, MEDIUM: 1, HIGH: 2 };
     return Math.floor(base * multipliers[appState.particleDensity] * data.radius);
   }, [appState.particleDensity, data.radius, isMobile]);
 
-  const particlesPosition = useMemo(() => {
-    const positions = new Float32Array(particleCount * 3);
-    const radius = data.radius;
-    for (let i = 0; i < particleCount; i++) {
-      // Random point on sphere surface
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
-      const r = radius; // Surface only for neon shell look
-
-      positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-      positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-      positions[i * 3 + 2] = r * Math.cos(phi);
-    }
-    return positions;
-  }, [particleCount, data.radius]);
+  const ringCount = Math.floor(RING_PARTICLES[appState.particleDensity] * (isMobile ? 0.5 : 1));
 
   // Handle interaction
   const handlePointerOver = () => {
@@ -115,52 +313,35 @@ const Planet: React.FC<{
 
   const isFocused = appState.focusedBody === data.id;
 
+  const moonCatalog = data.moonCatalog ?? [];
+  const minorMoonCount = Math.max(0, (data.moons ?? 0) - moonCatalog.length);
+  const outermostMoon = moonCatalog.reduce((max, moon) => Math.max(max, moon.distance), 2.5);
+  const isHighlighted = hovered || isFocused || appState.handHoveredBody === data.id;
+
   return (
     <group>
       {/* Static Orbit Path Visualizer - Now independent of planet rotation/position in hierarchy */}
-      {data.distance > 0 && (
-        <line>
-          <bufferGeometry>
-            <bufferAttribute
-              attach="attributes-position"
-              count={128}
-              array={new Float32Array(129 * 3).map((_, i) => {
-                const angle = (i / 128) * Math.PI * 2;
-                return i % 3 === 0 ? Math.cos(angle) * data.distance
-                  : i % 3 === 2 ? Math.sin(angle) * data.distance
-                    : 0;
-              })}
-              itemSize={3}
-            />
-          </bufferGeometry>
-          <lineBasicMaterial color={data.color} transparent opacity={0.15} />
-        </line>
-      )}
+      {data.orbit && data.distance > 0 && <OrbitLine data={data} appState={appState} opacity={0.15} />}
 
       {/* The Moving Planet Group */}
       <group ref={meshRef}>
         <group
+          ref={visualRef}
           onClick={handleClick}
           onPointerOver={handlePointerOver}
           onPointerOut={handlePointerOut}
         >
           {/* Visual Core */}
-          <points ref={particleRef}>
-            <bufferGeometry>
-              <bufferAttribute
-                attach="attributes-position"
-                count={particleCount}
-                array={particlesPosition}
-                itemSize={3}
-              />
-            </bufferGeometry>
+          <points geometry={particleGeometry(particleCount)} frustumCulled={false} raycast={NO_RAYCAST}>
             <pointsMaterial
               size={isMobile ? 0.3 : 0.15}
-              color={hovered || isFocused ? '#ffffff' : data.color}
+              color={isHighlighted ? '#ffffff' : data.color}
               transparent
               opacity={0.8}
               sizeAttenuation
               blending={THREE.AdditiveBlending}
+              onBeforeCompile={shellShader.onBeforeCompile}
+              customProgramCacheKey={shellShader.customProgramCacheKey}
             />
           </points>
 
@@ -172,20 +353,43 @@ const Planet: React.FC<{
 
           {/* Saturn Rings */}
           {data.hasRings && (
-            <points rotation={[Math.PI / 2.5, 0, 0]}>
-              <ringGeometry args={[data.radius * 1.4, data.radius * 2.2, 64]} />
-              <pointsMaterial size={0.1} color={data.color} transparent opacity={0.4} blending={THREE.AdditiveBlending} />
+            <points
+              geometry={particleGeometry(ringCount)}
+              rotation={[Math.PI / 2.5, 0, 0]}
+              frustumCulled={false}
+              raycast={NO_RAYCAST}
+            >
+              <pointsMaterial
+                size={0.1}
+                color={data.color}
+                transparent
+                opacity={0.4}
+                blending={THREE.AdditiveBlending}
+                onBeforeCompile={ringShader.onBeforeCompile}
+                customProgramCacheKey={ringShader.customProgramCacheKey}
+              />
             </points>
           )}
 
           {/* Moons */}
-          {data.moons && data.moons > 0 && (
+          {moonCatalog.map((moon) => (
             <Moon
+              key={moon.id}
+              moon={moon}
+              planetId={data.id}
               planetRadius={data.radius}
-              distance={data.radius * 2.5}
-              speed={2}
+              planetColor={data.color}
+              appState={appState}
+            />
+          ))}
+          {minorMoonCount > 0 && (
+            <MinorMoons
+              count={minorMoonCount}
+              innerRadius={data.radius * (outermostMoon + 0.5)}
+              outerRadius={data.radius * (outermostMoon + 3)}
               color={data.color}
               appState={appState}
+              seed={`${data.id}:minor-moons`}
             />
           )}
         </group>
@@ -194,56 +398,324 @@ const Planet: React.FC<{
   );
 };
 
-const AsteroidBelt: React.FC<{ count: number; appState: AppState }> = ({ count, appState }) => {
-  const points = useMemo(() => {
-    const p = new Float32Array(count * 3);
-    for (let i = 0; i < count; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const radius = THREE.MathUtils.lerp(ASTEROID_BELT_RADIUS_MIN, ASTEROID_BELT_RADIUS_MAX, Math.random());
-      const spreadY = (Math.random() - 0.5) * 4;
+const COMET_TAIL_PARTICLES = { LOW: 150, MEDIUM: 400, HIGH: 800 };
+
+// A comet nucleus and coma with a particle tail that points away from the star
+// and stretches as the comet nears perihelion.
+const Comet: React.FC<{
+  data: PlanetData;
+  appState: AppState;
+  isMobile: boolean
+}> = ({ data, appState, isMobile }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const visualRef = useRef<THREE.Group>(null);
+  const tailRef = useRef<THREE.Group>(null);
+  const tailPointsRef = useRef<THREE.Points>(null);
+  const [hovered, setHover] = useState(false);
+  const orbit = data.orbit!;
+  const tailLength = data.tailLength ?? 40;
+
+  useRegisteredBody(appState.bodyRegistry, data.id, groupRef, data.radius * 3);
+  const updateScale = useScaledBody(appState, data, visualRef);
+
+  const particleCount = Math.floor(COMET_TAIL_PARTICLES[appState.particleDensity] * (isMobile ? 0.5 : 1));
 
-      p[i * 3] = Math.cos(angle) * radius;
-      p[i * 3 + 1] = spreadY;
-      p[i * 3 + 2] = Math.sin(angle) * radius;
+  // Each particle has a phase along the tail and a lateral offset; positions are
+  // rebuilt every frame in a unit-length tail that the group scales and aims.
+  const tail = useMemo(() => {
+    const phase = new Float32Array(particleCount);
+    const offset = new Float32Array(particleCount * 2);
+    for (let i = 0; i < particleCount; i++) {
+      phase[i] = Math.random();
+      const angle = Math.random() * Math.PI * 2;
+      const spread = Math.sqrt(Math.random());
+      offset[i * 2] = Math.cos(angle) * spread;
+      offset[i * 2 + 1] = Math.sin(angle) * spread;
     }
-    return p;
-  }, [count]);
+    return {
+      phase,
+      offset,
+      positions: new Float32Array(particleCount * 3),
+      colors: new Float32Array(particleCount * 3)
+    };
+  }, [particleCount]);
+
+  const color = useMemo(() => new THREE.Color(data.color), [data.color]);
+  const awayFromStar = useMemo(() => new THREE.Vector3(), []);
 
-  const ref = useRef<THREE.Points>(null);
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
 
-  useFrame(({ clock }) => {
-    if (ref.current) {
-      ref.current.rotation.y = clock.getElapsedTime() * 0.05 * appState.simulationSpeed;
+    const au = placeOnScaledOrbit(appState.scaleTransition, data, appState.simulationClock.daysSinceEpoch(), group.position);
+    // Picking and framing use the coma rather than the tiny nucleus
+    appState.bodyRegistry.resize(data.id, updateScale() * 3);
+    appState.bodyRegistry.sync(data.id);
+
+    // Activity falls off with distance from the star: full tail at perihelion
+    const perihelion = orbit.semiMajorAxis * (1 - orbit.eccentricity);
+    const activity = Math.min(1, perihelion / au);
+    const length = tailLength * activity;
+
+    if (tailRef.current && tailPointsRef.current) {
+      tailRef.current.visible = length > 0.5;
+      const width = data.radius * 2 + length * 0.12;
+      tailRef.current.scale.set(width, width, Math.max(length, 0.001));
+      // The star sits at the origin, so "away" is further along the position vector
+      awayFromStar.copy(group.position).multiplyScalar(2);
+      tailRef.current.lookAt(awayFromStar);
+
+      // Stream particles outward with simulation time, so the tail freezes when
+      // paused and runs backwards in reverse; they widen and fade towards the end
+      const flow = appState.simulationClock.elapsedSeconds() * 0.15;
+      for (let i = 0; i < particleCount; i++) {
+        const t = THREE.MathUtils.euclideanModulo(tail.phase[i] + flow, 1);
+        tail.positions[i * 3] = tail.offset[i * 2] * t;
+        tail.positions[i * 3 + 1] = tail.offset[i * 2 + 1] * t;
+        tail.positions[i * 3 + 2] = t;
+        const fade = (1 - t) * activity;
+        tail.colors[i * 3] = color.r * fade;
+        tail.colors[i * 3 + 1] = color.g * fade;
+        tail.colors[i * 3 + 2] = color.b * fade;
+      }
+      const geometry = tailPointsRef.current.geometry;
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.color.needsUpdate = true;
     }
+  }, BODY_FRAME_PRIORITY);
+
+  const isHighlighted = hovered || appState.focusedBody === data.id || appState.handHoveredBody === data.id;
+
+  return (
+    <group>
+      <OrbitLine data={data} appState={appState} segments={256} opacity={0.1} />
+
+      <group ref={groupRef}>
+        <group
+          ref={visualRef}
+          onClick={(e) => {
+            e.stopPropagation();
+            appState.setFocusedBody(data.id);
+          }}
+          onPointerOver={() => {
+            document.body.style.cursor = 'pointer';
+            setHover(true);
+          }}
+          onPointerOut={() => {
+            document.body.style.cursor = 'auto';
+            setHover(false);
+          }}
+        >
+          {/* Nucleus */}
+          <mesh>
+            <icosahedronGeometry args={[data.radius, 1]} />
+            <meshBasicMaterial color={isHighlighted ? '#ffffff' : data.color} />
+          </mesh>
+          {/* Coma */}
+          <mesh>
+            <sphereGeometry args={[data.radius * 3, 16, 16]} />
+            <meshBasicMaterial color={data.color} transparent opacity={isHighlighted ? 0.25 : 0.12} blending={THREE.AdditiveBlending} depthWrite={false} />
+          </mesh>
+        </group>
+
+        <group ref={tailRef}>
+          {/* Positions change every frame, so skip bounding-sphere culling */}
+          <points ref={tailPointsRef} key={particleCount} frustumCulled={false}>
+            <bufferGeometry>
+              <bufferAttribute attach="attributes-position" count={particleCount} array={tail.positions} itemSize={3} />
+              <bufferAttribute attach="attributes-color" count={particleCount} array={tail.colors} itemSize={3} />
+            </bufferGeometry>
+            <pointsMaterial
+              size={isMobile ? 0.5 : 0.3}
+              vertexColors
+              transparent
+              sizeAttenuation
+              depthWrite={false}
+              blending={THREE.AdditiveBlending}
+            />
+          </points>
+        </group>
+      </group>
+    </group>
+  );
+};
+
+const AsteroidBelt: React.FC<{ belt: BeltData; count: number; appState: AppState }> = ({ belt, count, appState }) => {
+  const shader = useMemo(() => createParticleShader('BELT', particleSeedOffset(belt.id)), [belt.id]);
+  // The shader blends each particle's artistic radius with its AU under the other modes
+  const edgesAU = useMemo(() => ({
+    inner: artisticRadiusToAU(appState.bodies, belt.innerRadius),
+    outer: artisticRadiusToAU(appState.bodies, belt.outerRadius)
+  }), [belt.innerRadius, belt.outerRadius, appState.bodies]);
+
+  useFrame(() => {
+    const { uniforms } = shader;
+    uniforms.uAngle.value = appState.simulationClock.elapsedSeconds() * belt.rotationSpeed;
+    uniforms.uInner.value = belt.innerRadius;
+    uniforms.uOuter.value = belt.outerRadius;
+    uniforms.uThickness.value = belt.thickness;
+    uniforms.uInnerAU.value = edgesAU.inner;
+    uniforms.uOuterAU.value = edgesAU.outer;
+    scaleModeWeights(appState.scaleTransition, uniforms.uModeWeights.value);
   });
 
   return (
-    <points ref={ref}>
-      <bufferGeometry>
-        <bufferAttribute attach="attributes-position" count={count} array={points} itemSize={3} />
-      </bufferGeometry>
-      <pointsMaterial size={0.15} color="#555555" transparent opacity={0.6} />
+    <points geometry={particleGeometry(count)} frustumCulled={false} raycast={NO_RAYCAST}>
+      <pointsMaterial
+        size={0.15}
+        color={belt.color}
+        transparent
+        opacity={0.6}
+        onBeforeCompile={shader.onBeforeCompile}
+        customProgramCacheKey={shader.customProgramCacheKey}
+      />
     </points>
   );
 };
 
-import { HandGesture } from './HandController';
+// The starfield travels with the camera so it stays a backdrop at every scale
+const StarField: React.FC<{ isMobile: boolean }> = ({ isMobile }) => {
+  const ref = useRef<THREE.Group>(null);
+  useFrame(({ camera }) => {
+    ref.current?.position.copy(camera.position);
+  });
+  return (
+    <group ref={ref}>
+      <Stars radius={600} depth={100} count={isMobile ? 2000 : 8000} factor={4} saturation={0} fade speed={1} />
+    </group>
+  );
+};
+
+const SUN_LIGHT_RANGE = 800; // Artistic scene units
+const SUN_LIGHT_INTENSITY = 3;
+const SUN_LIGHT_DECAY = 1.5;
+
+// The star's light reaches as far, relative to the system, in every scale mode:
+// its range stretches with the mode's camera limits and its intensity makes up
+// for the longer falloff, so outer planets stay lit when distances grow
+const SunLight: React.FC<{ appState: AppState }> = ({ appState }) => {
+  const ref = useRef<THREE.PointLight>(null);
+  useFrame(() => {
+    if (!ref.current) return;
+    const stretch = appState.scaleTransition.blend(m => SCALE_MODE_CAMERA[m].maxDistance) / SCALE_MODE_CAMERA.ARTISTIC.maxDistance;
+    ref.current.distance = SUN_LIGHT_RANGE * stretch;
+    ref.current.intensity = SUN_LIGHT_INTENSITY * Math.pow(stretch, SUN_LIGHT_DECAY);
+  });
+  return (
+    <pointLight
+      ref={ref}
+      position={[0, 0, 0]}
+      intensity={SUN_LIGHT_INTENSITY}
+      color={appState.activeSystem.star.color}
+      distance={SUN_LIGHT_RANGE}
+      decay={SUN_LIGHT_DECAY}
+    />
+  );
+};
+
+// Pulsing ring around the body the tour is pointing out
+const TourHighlight: React.FC<{ appState: AppState }> = ({ appState }) => {
+  const ref = useRef<THREE.Mesh>(null);
+
+  useFrame(({ camera, clock }) => {
+    const mesh = ref.current;
+    if (!mesh) return;
+    const body = appState.highlightedBody ? appState.bodyRegistry.get(appState.highlightedBody) : undefined;
+    mesh.visible = !!body;
+    if (!body) return;
+    mesh.position.copy(body.worldPosition);
+    mesh.quaternion.copy(camera.quaternion);
+    mesh.scale.setScalar(body.radius * 1.8 * (1 + Math.sin(clock.elapsedTime * 3) * 0.08));
+  });
+
+  return (
+    <mesh ref={ref} visible={false}>
+      <ringGeometry args={[0.92, 1, 64]} />
+      <meshBasicMaterial color="#00e0ff" transparent opacity={0.8} depthWrite={false} side={THREE.DoubleSide} />
+    </mesh>
+  );
+};
+
+const ORIGIN = new THREE.Vector3();
+const HAND_DWELL_MS = 1200;
+const TOUR_FRAMING = new THREE.Vector3(5, 3, 5); // Camera offset from a focused body, in its radii
 
-// ... (previous imports)
+// Keyboard flight, in artistic-scale units (stretched by the mode's reach).
+// Velocity decays by DAMPING per second, so top speed is ACCELERATION / DAMPING.
+const FLIGHT_ACCELERATION = 150;
+const FLIGHT_DAMPING = 2.5;
+const FLIGHT_BOOST = 4;
+const FLIGHT_TURN_ACCELERATION = 5; // Radians per second squared
+const FLIGHT_TURN_DAMPING = 5;
 
-const CameraController: React.FC<{ appState: AppState; gestureRef?: React.MutableRefObject<HandGesture> }> = ({ appState, gestureRef }) => {
+const GAMEPAD_ORBIT_SPEED = 2; // Radians per second at full stick
+const GAMEPAD_ZOOM_SPEED = 1.5; // Distance doubles in about half a second at full stick
+
+const CameraController: React.FC<{
+  appState: AppState;
+  gestureRef?: React.MutableRefObject<HandGesture>;
+  handPointerRef?: React.MutableRefObject<HandPointerState>;
+  gamepadRef?: React.MutableRefObject<GamepadInput>;
+  cameraViewRef?: React.MutableRefObject<CameraViewState>;
+  tourProgressRef?: React.MutableRefObject<TourProgress>;
+  cameraPathPlaybackRef?: React.MutableRefObject<CameraPathPlayback>;
+}> = ({ appState, gestureRef, handPointerRef, gamepadRef, cameraViewRef, tourProgressRef, cameraPathPlaybackRef }) => {
   const { camera, gl, scene } = useThree();
   const controlsRef = useRef<any>(null);
-  const autoOrbitRef = useRef(0);
+  const modeCamera = SCALE_MODE_CAMERA[appState.scaleMode];
+  // Distances tuned for the artistic scale are stretched by this much in other modes
+  const modeReach = modeCamera.maxDistance / SCALE_MODE_CAMERA.ARTISTIC.maxDistance;
 
   // Hand Control State
   const handState = useRef({
     rotation: { x: 0, y: 0 },
     zoom: 300,
     cursor: new THREE.Vector2(0, 0),
+    dwellStart: 0,
+    selectionLocked: false, // Prevents re-selecting until the pointer leaves the body
+    wasPinching: false,
     isFocusing: false
   });
 
+  // Gamepad Orbit State: spherical offset from the orbit center
+  const gamepadState = useRef({
+    orbit: new THREE.Spherical(),
+    refocus: true // Re-measure the orbit from the camera before the next move
+  });
+
+  // Keyboard Flight State
+  const flightState = useRef({
+    heldKeys: new Set<string>(),
+    velocity: new THREE.Vector3(), // World units per second
+    spin: new THREE.Vector3(), // Pitch, yaw and roll rates in radians per second
+    following: false, // Gliding to the focused body (or home) until the pilot takes over
+    lookDistance: 0 // Keeps the orbit target ahead of the camera for other modes
+  });
+
+  // Tour State: in AUTO mode the camera rides along with the focused body (the
+  // anchor) and the tour animates its offsets from it
+  const tourView = useRef({
+    anchor: undefined as string | null | undefined, // undefined until the view is first captured
+    seenFocus: undefined as string | null | undefined,
+    offset: new THREE.Vector3(),
+    lookOffset: new THREE.Vector3()
+  });
+  const tourTimelineRef = useRef<gsap.core.Timeline | null>(null);
+  const tourStepStartRef = useRef(0);
+
+  const anchorPosition = (id: string | null | undefined) => (
+    (id && appState.bodyRegistry.get(id)?.worldPosition) || ORIGIN
+  );
+
+  // Re-expresses the current view relative to another anchor, so changing focus never jumps the camera
+  const rebaseTourView = (anchor: string | null) => {
+    const view = tourView.current;
+    const position = anchorPosition(anchor);
+    view.offset.subVectors(camera.position, position);
+    view.lookOffset.subVectors(controlsRef.current?.target ?? ORIGIN, position);
+    view.anchor = anchor;
+  };
+
   // Initial Position
   useEffect(() => {
     camera.position.set(0, 150, 300);
@@ -254,9 +726,11 @@ const CameraController: React.FC<{ appState: AppState; gestureRef?: React.Mutabl
     if (!appState.focusedBody) {
       // Reset View
       if (appState.controlMode === ControlMode.AUTO) return; // Let auto handle it
+      if (appState.controlMode === ControlMode.KEYBOARD) return; // Flight glides home itself
 
+      const [x, y, z] = modeCamera.home;
       gsap.to(camera.position, {
-        x: 0, y: 150, z: 300,
+        x, y, z,
         duration: 2,
         ease: 'power3.inOut'
       });
@@ -271,82 +745,368 @@ const CameraController: React.FC<{ appState: AppState; gestureRef?: React.Mutabl
     }
 
     // Since planets move, we need a frame loop to follow them, but for the transition we jump to near them
-  }, [appState.focusedBody, camera, appState.controlMode]);
-
-
-  // Frame Loop for following focused planet or Auto Orbit
-  useFrame(({ clock, raycaster }, delta) => {
-    if (appState.controlMode === ControlMode.AUTO) {
-      autoOrbitRef.current += delta * 0.05; // Slower auto orbit for larger scale
-      const r = 350;
-      const x = Math.sin(autoOrbitRef.current) * r;
-      const z = Math.cos(autoOrbitRef.current) * r;
-      camera.position.lerp(new THREE.Vector3(x, 100, z), 0.05);
-      camera.lookAt(0, 0, 0);
-      if (controlsRef.current) controlsRef.current.update();
+  }, [appState.focusedBody, camera, appState.controlMode, appState.scaleMode]);
+
+  // Match the clipping planes to the scale mode; the reset-view effect above reframes the camera
+  useEffect(() => {
+    const perspective = camera as THREE.PerspectiveCamera;
+    perspective.near = modeCamera.near;
+    perspective.far = modeCamera.far;
+    perspective.updateProjectionMatrix();
+  }, [camera, modeCamera]);
+
+  // Picking a body (or resetting) hands the flight camera back to following
+  useEffect(() => {
+    flightState.current.following = true;
+  }, [appState.focusedBody]);
+
+  // In gamepad mode, a newly focused body is framed at a comfortable distance
+  useEffect(() => {
+    gamepadState.current.refocus = true;
+  }, [appState.focusedBody, appState.controlMode]);
+
+  // Start flying from the current view; a focused body is followed until the pilot steers
+  useEffect(() => {
+    if (appState.controlMode !== ControlMode.KEYBOARD) return;
+    const flight = flightState.current;
+    flight.velocity.set(0, 0, 0);
+    flight.spin.set(0, 0, 0);
+    flight.following = appState.focusedBody !== null;
+    flight.lookDistance = controlsRef.current
+      ? Math.max(camera.position.distanceTo(controlsRef.current.target), modeCamera.minDistance)
+      : modeCamera.minDistance;
+    return () => flight.heldKeys.clear();
+  }, [appState.controlMode]);
+
+  // Drop any hand hover state when leaving hand mode
+  useEffect(() => {
+    if (appState.controlMode === ControlMode.HAND) return;
+    if (handPointerRef) handPointerRef.current.active = false;
+    appState.setHandHoveredBody(null);
+  }, [appState.controlMode]);
+
+  // In hand mode, frame a newly focused body at a comfortable distance
+  useEffect(() => {
+    if (appState.controlMode !== ControlMode.HAND) return;
+    const body = appState.focusedBody ? appState.bodyRegistry.get(appState.focusedBody) : undefined;
+    handState.current.zoom = body ? body.radius * 8 : new THREE.Vector3(...modeCamera.home).length();
+  }, [appState.focusedBody, appState.controlMode, appState.bodyRegistry, modeCamera]);
+
+
+  // Tour player: one timeline per step, advancing the tour when it completes
+  useEffect(() => {
+    if (appState.controlMode !== ControlMode.AUTO) {
+      tourView.current.anchor = undefined;
+      tourView.current.seenFocus = undefined;
+      return;
+    }
+    const { tour, tourPlayback } = appState;
+    const step = tour.steps[tourPlayback.stepIndex];
+    tourStepStartRef.current = tourStepStart(tour, tourPlayback.stepIndex);
+    if (!step) return;
+
+    const view = tourView.current;
+    if (view.seenFocus === undefined) {
+      // Entering AUTO: capture the current view as the starting point
+      view.seenFocus = appState.focusedBody;
+      rebaseTourView(appState.focusedBody);
+    }
+    const timeline = gsap.timeline({ paused: !tourPlayback.playing, onComplete: appState.advanceTour });
+    const duration = tourStepDuration(step);
+
+    switch (step.type) {
+      case 'focus': {
+        const body = step.body ? appState.bodyRegistry.get(step.body) : undefined;
+        if (step.body && !body) console.warn(`Tour step skipped: no body "${step.body}" in this system`);
+        const anchor = body ? step.body : null;
+        const framing = body
+          ? TOUR_FRAMING.clone().multiplyScalar(body.radius)
+          : new THREE.Vector3(...modeCamera.home);
+        rebaseTourView(anchor);
+        timeline.call(() => appState.setFocusedBody(anchor));
+        timeline.to(view.offset, { x: framing.x, y: framing.y, z: framing.z, duration, ease: 'power3.inOut' }, 0);
+        timeline.to(view.lookOffset, { x: 0, y: 0, z: 0, duration, ease: 'power3.inOut' }, 0);
+        break;
+      }
+      case 'camera': {
+        // Offsets are in the anchor's radii, or stretched scene units around the star
+        const unit = view.anchor ? (appState.bodyRegistry.get(view.anchor)?.radius ?? 1) : modeReach;
+        const points = step.path.map(([x, y, z]) => new THREE.Vector3(x, y, z).multiplyScalar(unit));
+        const flight = { t: 0 };
+        let curve: THREE.CatmullRomCurve3;
+        timeline.to(flight, {
+          t: 1,
+          duration,
+          ease: step.ease ?? 'sine.inOut',
+          onStart: () => {
+            curve = new THREE.CatmullRomCurve3([view.offset.clone(), ...points]);
+          },
+          onUpdate: () => {
+            curve.getPoint(flight.t, view.offset);
+          }
+        });
+        timeline.to(view.lookOffset, { x: 0, y: 0, z: 0, duration: Math.min(duration, 2), ease: 'power2.out' }, 0);
+        break;
+      }
+      case 'speed':
+        timeline.call(() => appState.setSimulationSpeed(step.value));
+        break;
+      case 'caption':
+        timeline.call(() => appState.setTourCaption(step.text ? { title: step.title, text: step.text } : null));
+        break;
+      case 'highlight':
+        timeline.call(() => appState.setHighlightedBody(step.body));
+        break;
+      case 'wait':
+        timeline.to({}, { duration });
+        break;
+    }
+
+    tourTimelineRef.current = timeline;
+    return () => {
+      timeline.kill();
+      tourTimelineRef.current = null;
+    };
+  }, [appState.controlMode, appState.tour, appState.tourPlayback.generation]);
+
+  useEffect(() => {
+    tourTimelineRef.current?.paused(!appState.tourPlayback.playing);
+  }, [appState.tourPlayback.playing]);
+
+  // Camera path playback
+  const cameraPathSampler = useMemo(() => createCameraPathSampler(appState.cameraPath), [appState.cameraPath]);
+  const cameraPathLength = useMemo(() => cameraPathDuration(appState.cameraPath), [appState.cameraPath]);
+  const cameraPathTarget = useMemo(() => new THREE.Vector3(), []);
+
+  // A playing path takes over from any camera animation in flight
+  useEffect(() => {
+    if (!appState.isPlayingCameraPath) return;
+    gsap.killTweensOf(camera.position);
+    if (controlsRef.current) gsap.killTweensOf(controlsRef.current.target);
+  }, [appState.isPlayingCameraPath, camera]);
+
+  // Frame Loop for following focused planet or the tour
+  useFrame(({ raycaster }, delta) => {
+    // Jump to a view restored from a link, cancelling any reset animation still running
+    const requested = cameraViewRef?.current.requested;
+    if (requested) {
+      cameraViewRef.current.requested = null;
+      gsap.killTweensOf(camera.position);
+      camera.position.copy(requested.position);
+      if (controlsRef.current) {
+        gsap.killTweensOf(controlsRef.current.target);
+        controlsRef.current.target.copy(requested.target);
+        controlsRef.current.update();
+      } else {
+        camera.lookAt(requested.target);
+      }
+      // Hold the view rather than gliding off to a body or home, even if focus changed with it
+      const flight = flightState.current;
+      flight.following = false;
+      flight.velocity.set(0, 0, 0);
+      flight.spin.set(0, 0, 0);
+      flight.lookDistance = Math.max(requested.position.distanceTo(requested.target), modeCamera.minDistance);
+    }
+
+    if (appState.isPlayingCameraPath && cameraPathSampler && cameraPathPlaybackRef) {
+      const playback = cameraPathPlaybackRef.current;
+      playback.time = Math.min(playback.time + delta, cameraPathLength);
+      cameraPathSampler(playback.time, camera.position, cameraPathTarget);
+      camera.lookAt(cameraPathTarget);
+      if (controlsRef.current) controlsRef.current.target.copy(cameraPathTarget);
+      if (playback.time >= cameraPathLength) appState.setIsPlayingCameraPath(false);
+      // The tour picks up from wherever the path leaves the camera
+      tourView.current.seenFocus = undefined;
+    } else if (appState.controlMode === ControlMode.AUTO) {
+      const view = tourView.current;
+      // Follow focus changes made outside the tour (clicks, links) without a jump
+      if (requested || appState.focusedBody !== view.seenFocus) {
+        view.seenFocus = appState.focusedBody;
+        if (requested || view.anchor !== appState.focusedBody) rebaseTourView(appState.focusedBody);
+      }
+
+      const anchor = anchorPosition(view.anchor);
+      camera.position.copy(anchor).add(view.offset);
+      const look = controlsRef.current ? controlsRef.current.target : new THREE.Vector3();
+      look.copy(anchor).add(view.lookOffset);
+      camera.lookAt(look);
+
+      if (tourProgressRef) {
+        tourProgressRef.current.elapsed = tourStepStartRef.current + (tourTimelineRef.current?.time() ?? 0);
+      }
     } else if (appState.controlMode === ControlMode.HAND && gestureRef) {
       // HAND CONTROL LOGIC
       const gesture = gestureRef.current;
+      const hand = handState.current;
 
-      if (gesture.type === 'ROTATE' && gesture.value) {
-        // Rotate camera around target (0,0,0) or focused body
-        // Simple orbit implementation
-        const speed = 5;
-        handState.current.rotation.x += gesture.value.x * speed;
-        handState.current.rotation.y += gesture.value.y * speed;
+      // Orbit around the focused body when there is one, otherwise the Sun
+      const focused = appState.focusedBody ? appState.bodyRegistry.get(appState.focusedBody) : undefined;
+      const center = focused ? focused.worldPosition : ORIGIN;
+      const minZoom = focused ? focused.radius * 3 : 50 * modeReach;
 
-        // Apply rotation to camera position
-        const r = handState.current.zoom;
-        const theta = handState.current.rotation.x; // Horizontal
-        const phi = Math.max(0.1, Math.min(Math.PI / 2 - 0.1, handState.current.rotation.y + Math.PI / 4)); // Vertical (clamped)
+      const orbitCamera = () => {
+        const r = hand.zoom;
+        const theta = hand.rotation.x; // Horizontal
+        const phi = Math.max(0.1, Math.min(Math.PI / 2 - 0.1, hand.rotation.y + Math.PI / 4)); // Vertical (clamped)
 
         const x = r * Math.sin(phi) * Math.sin(theta);
         const z = r * Math.sin(phi) * Math.cos(theta);
         const y = r * Math.cos(phi);
 
-        camera.position.lerp(new THREE.Vector3(x, y, z), 0.1);
-        camera.lookAt(0, 0, 0);
+        camera.position.lerp(new THREE.Vector3(x, y, z).add(center), 0.1);
+        camera.lookAt(center);
+      };
+
+      if (gesture.type === 'ROTATE' && gesture.value) {
+        // Rotate camera around the orbit center
+        // Simple orbit implementation
+        const speed = 5;
+        hand.rotation.x += gesture.value.x * speed;
+        hand.rotation.y += gesture.value.y * speed;
+        orbitCamera();
       } else if (gesture.type === 'ZOOM' && typeof gesture.value === 'number') {
-        handState.current.zoom = Math.max(50, Math.min(600, handState.current.zoom - gesture.value));
+        hand.zoom = Math.max(minZoom, Math.min(modeCamera.maxDistance, hand.zoom - gesture.value * modeReach));
         // Apply zoom (position update handled in rotate block or separate)
         // If not rotating, just lerp distance
-        const dir = new THREE.Vector3().copy(camera.position).normalize();
-        camera.position.lerp(dir.multiplyScalar(handState.current.zoom), 0.1);
-      } else if (gesture.type === 'FOCUS' && gesture.value) {
+        const dir = new THREE.Vector3().subVectors(camera.position, center).normalize();
+        camera.position.lerp(dir.multiplyScalar(hand.zoom).add(center), 0.1);
+      } else if (focused) {
+        // Keep tracking the focused body as it moves
+        orbitCamera();
+      }
+
+      const pointer = handPointerRef?.current;
+      if (gesture.type === 'FOCUS' && gesture.value && pointer) {
         // Move virtual cursor
-        handState.current.cursor.set(gesture.value.x * 2 - 1, -(gesture.value.y * 2 - 1));
-
-        // Raycast from camera
-        raycaster.setFromCamera(handState.current.cursor, camera);
-        // We need to raycast against planets. 
-        // Since we don't have direct access to meshes here easily without a global store or context,
-        // we can use a simple distance check or rely on the fact that planets have click handlers.
-        // But raycaster needs objects.
-        // For now, let's just visualize the cursor if possible or skip selection logic 
-        // and rely on "Pinch to Select" if we can hit-test.
-        // Actually, without passing the scene objects, raycasting is hard here.
-        // Alternative: The Planet component checks if it's being hovered by the "Hand Cursor".
-        // But the cursor is here.
-        // Let's skip complex raycasting for now and focus on Rotate/Zoom/Exit.
+        pointer.active = true;
+        pointer.x = gesture.value.x;
+        pointer.y = gesture.value.y;
+        hand.cursor.set(gesture.value.x * 2 - 1, -(gesture.value.y * 2 - 1));
+
+        // Raycast from camera against the live body positions
+        raycaster.setFromCamera(hand.cursor, camera);
+        const hoveredId = appState.bodyRegistry.pick(raycaster.ray)?.id ?? null;
+        const now = performance.now();
+
+        if (hoveredId !== pointer.hoveredBody) {
+          pointer.hoveredBody = hoveredId;
+          hand.dwellStart = now;
+          hand.selectionLocked = false;
+          appState.setHandHoveredBody(hoveredId);
+        }
+
+        // Select by holding still over a body, or immediately with a pinch
+        const pinchStarted = !!gesture.value.pinch && !hand.wasPinching;
+        hand.wasPinching = !!gesture.value.pinch;
+        pointer.pinching = hand.wasPinching;
+        pointer.dwellProgress = hoveredId && !hand.selectionLocked
+          ? Math.min(1, (now - hand.dwellStart) / HAND_DWELL_MS)
+          : 0;
+
+        if (hoveredId && !hand.selectionLocked && (pointer.dwellProgress >= 1 || pinchStarted)) {
+          hand.selectionLocked = true;
+          pointer.dwellProgress = 0;
+          if (hoveredId !== appState.focusedBody) {
+            appState.setFocusedBody(hoveredId);
+          }
+        }
+      } else if (pointer?.active) {
+        pointer.active = false;
+        pointer.hoveredBody = null;
+        pointer.dwellProgress = 0;
+        pointer.pinching = false;
+        hand.wasPinching = false;
+        appState.setHandHoveredBody(null);
       }
 
       if (controlsRef.current) controlsRef.current.enabled = false;
 
+    } else if (appState.controlMode === ControlMode.GAMEPAD && gamepadRef) {
+      const input = gamepadRef.current;
+      const pad = gamepadState.current;
+      const focused = appState.focusedBody ? appState.bodyRegistry.get(appState.focusedBody) : undefined;
+      const center = focused ? focused.worldPosition : ORIGIN;
+      const minZoom = focused ? focused.radius * 3 : modeCamera.minDistance;
+      const moving = input.orbit.x !== 0 || input.orbit.y !== 0 || input.zoom !== 0;
+
+      if (pad.refocus) {
+        pad.orbit.setFromVector3(new THREE.Vector3().subVectors(camera.position, center));
+        if (focused) pad.orbit.radius = focused.radius * 8;
+        pad.refocus = !focused; // Unfocused, keep re-measuring so the reset animation plays undisturbed
+      }
+
+      if (moving || focused) {
+        pad.refocus = false;
+        pad.orbit.theta -= input.orbit.x * GAMEPAD_ORBIT_SPEED * delta;
+        pad.orbit.phi = THREE.MathUtils.clamp(pad.orbit.phi + input.orbit.y * GAMEPAD_ORBIT_SPEED * delta, 0.1, Math.PI - 0.1);
+        pad.orbit.radius = THREE.MathUtils.clamp(
+          pad.orbit.radius * Math.exp(input.zoom * GAMEPAD_ZOOM_SPEED * delta),
+          minZoom,
+          modeCamera.maxDistance
+        );
+        if (moving) {
+          // Cancel a reset animation the player is steering out of
+          gsap.killTweensOf(camera.position);
+          if (controlsRef.current) gsap.killTweensOf(controlsRef.current.target);
+        }
+        camera.position.lerp(new THREE.Vector3().setFromSpherical(pad.orbit).add(center), 0.1);
+        if (controlsRef.current) controlsRef.current.target.copy(center);
+        camera.lookAt(center);
+      } else {
+        camera.lookAt(controlsRef.current?.target ?? ORIGIN);
+      }
+    } else if (appState.controlMode === ControlMode.KEYBOARD) {
+      const flight = flightState.current;
+      const held = (action: KeyAction) => appState.keymap[action].some(code => flight.heldKeys.has(code));
+      const axis = (positive: KeyAction, negative: KeyAction) => (held(positive) ? 1 : 0) - (held(negative) ? 1 : 0);
+
+      const thrust = new THREE.Vector3(axis('right', 'left'), axis('up', 'down'), axis('back', 'forward'));
+      const turn = new THREE.Vector3(axis('pitchUp', 'pitchDown'), axis('yawLeft', 'yawRight'), axis('rollLeft', 'rollRight'));
+      if (thrust.lengthSq() > 0 || turn.lengthSq() > 0) flight.following = false;
+
+      if (flight.following) {
+        // Glide to the focused body, or back home, and turn to face it
+        const body = appState.focusedBody ? appState.bodyRegistry.get(appState.focusedBody) : undefined;
+        const lookAt = body ? body.worldPosition : ORIGIN;
+        const goal = body
+          ? TOUR_FRAMING.clone().multiplyScalar(body.radius).add(lookAt)
+          : new THREE.Vector3(...modeCamera.home);
+        camera.position.lerp(goal, 0.05);
+        const facing = new THREE.Quaternion().setFromRotationMatrix(
+          new THREE.Matrix4().lookAt(camera.position, lookAt, THREE.Object3D.DEFAULT_UP)
+        );
+        camera.quaternion.slerp(facing, 0.1);
+        flight.velocity.set(0, 0, 0);
+        flight.spin.set(0, 0, 0);
+        flight.lookDistance = Math.max(camera.position.distanceTo(lookAt), modeCamera.minDistance);
+      } else {
+        const boost = held('boost') ? FLIGHT_BOOST : 1;
+        thrust.normalize().applyQuaternion(camera.quaternion).multiplyScalar(FLIGHT_ACCELERATION * modeReach * boost * delta);
+        flight.velocity.add(thrust).multiplyScalar(Math.exp(-FLIGHT_DAMPING * delta));
+        camera.position.addScaledVector(flight.velocity, delta);
+
+        flight.spin.addScaledVector(turn, FLIGHT_TURN_ACCELERATION * delta).multiplyScalar(Math.exp(-FLIGHT_TURN_DAMPING * delta));
+        // Turns are about the camera's own axes, so every orientation is reachable
+        camera.rotateX(flight.spin.x * delta);
+        camera.rotateY(flight.spin.y * delta);
+        camera.rotateZ(flight.spin.z * delta);
+      }
+
+      // Keep the orbit target ahead, so switching back to the mouse orbits what's in view
+      if (controlsRef.current) {
+        camera.getWorldDirection(controlsRef.current.target).multiplyScalar(flight.lookDistance).add(camera.position);
+      }
     } else if (appState.focusedBody) {
       // Find the object
-      const planet = PLANET_DATA.find(p => p.id === appState.focusedBody);
-      if (planet) {
-        const t = clock.getElapsedTime() * planet.speed * appState.simulationSpeed * 0.2;
-        const pX = Math.cos(t) * planet.distance;
-        const pZ = Math.sin(t) * planet.distance;
-
-        const targetPos = new THREE.Vector3(pX, 0, pZ);
+      const body = appState.bodyRegistry.get(appState.focusedBody);
+      if (body) {
+        const targetPos = body.worldPosition;
 
         // Smoothly move controls target to planet
         if (controlsRef.current) {
           controlsRef.current.target.lerp(targetPos, 0.1);
           // Keep camera at a fixed offset relative to planet
-          const offset = new THREE.Vector3(pX + planet.radius * 5, planet.radius * 3, pZ + planet.radius * 5);
+          const offset = targetPos.clone().add(new THREE.Vector3(body.radius * 5, body.radius * 3, body.radius * 5));
           camera.position.lerp(offset, 0.05);
           controlsRef.current.update();
         }
@@ -355,31 +1115,52 @@ const CameraController: React.FC<{ appState: AppState; gestureRef?: React.Mutabl
       controlsRef.current.enabled = true;
       controlsRef.current.update();
     }
+
+    // Publish the view for shareable links and path recording. The target is
+    // taken along the view direction, since hand and keyboard modes turn the
+    // camera without moving the controls target.
+    if (cameraViewRef && controlsRef.current) {
+      const view = cameraViewRef.current.current;
+      const distance = Math.max(camera.position.distanceTo(controlsRef.current.target), modeCamera.minDistance);
+      view.position.copy(camera.position);
+      camera.getWorldDirection(view.target).multiplyScalar(distance).add(camera.position);
+    }
   });
 
-  // Keyboard controls
+  // Keyboard flight: held keys are read every frame; reset acts once
   useEffect(() => {
+    if (appState.controlMode !== ControlMode.KEYBOARD) return;
+    const flight = flightState.current;
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (appState.controlMode !== ControlMode.KEYBOARD) return;
-
-      const moveSpeed = 8;
-      const rotSpeed = 0.05;
-
-      switch (e.key) {
-        case 'ArrowUp': camera.translateZ(-moveSpeed); break;
-        case 'ArrowDown': camera.translateZ(moveSpeed); break;
-        case 'ArrowLeft': camera.translateX(-moveSpeed); break;
-        case 'ArrowRight': camera.translateX(moveSpeed); break;
-        case 'w': camera.position.y += moveSpeed; break;
-        case 's': camera.position.y -= moveSpeed; break;
-        case ' ': appState.setFocusedBody(null); break; // Reset
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return; // Typing in a panel, or a browser shortcut
+      const action = actionForKey(appState.keymap, e.code);
+      if (!action || !isFlightAction(action)) return;
+      e.preventDefault(); // Arrows and Space would otherwise scroll or press the focused button
+      if (action === 'resetView') {
+        if (!e.repeat) {
+          appState.setFocusedBody(null);
+          flight.following = true;
+        }
+        return;
       }
+      flight.heldKeys.add(e.code);
     };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      flight.heldKeys.delete(e.code);
+    };
+    // Keys released while the window is in the background never report keyup
+    const handleBlur = () => flight.heldKeys.clear();
 
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [appState.controlMode, camera, appState]);
-
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [appState.controlMode, appState.keymap, appState.setFocusedBody]);
 
   return (
     <>
@@ -388,57 +1169,209 @@ const CameraController: React.FC<{ appState: AppState; gestureRef?: React.Mutabl
         enableDamping={true}
         dampingFactor={0.05}
         enabled={appState.controlMode === ControlMode.MOUSE}
-        maxDistance={650}
-        minDistance={10}
+        maxDistance={modeCamera.maxDistance}
+        minDistance={modeCamera.minDistance}
       />
-      {/* Visual Cursor for Hand Mode */}
-      {appState.controlMode === ControlMode.HAND && (
-        <mesh position={[0, 0, 0]} ref={(mesh) => {
-          if (mesh && gestureRef?.current?.type === 'FOCUS' && gestureRef.current.value) {
-            // This is tricky to position in 3D space to match screen space without raycasting to a plane.
-            // Let's skip the visual cursor for now or put it on a HUD plane.
-            // Actually, we can just use a DOM element for the cursor!
-          }
-        }}>
-        </mesh>
-      )}
     </>
   );
 };
 
 
-const Scene3D: React.FC<{ appState: AppState; isMobile: boolean; gestureRef?: React.MutableRefObject<HandGesture> }> = ({ appState, isMobile, gestureRef }) => {
+const nextAnimationFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Renders captures on demand. App sizes the canvas for the output and stops the
+// frame loop; each frame then steps the simulation and animations by exactly
+// 1/fps and renders once, however long encoding takes.
+const SceneCapture: React.FC<{ capturerRef: React.MutableRefObject<SceneCapturer | null> }> = ({ capturerRef }) => {
+  const get = useThree(state => state.get);
+
+  useEffect(() => {
+    capturerRef.current = {
+      capture: async (options, overlay, onProgress, signal) => {
+        const { width, height } = options;
+
+        // Wait for the resize and the switch to on-demand rendering to land
+        const start = performance.now();
+        const isReady = () => {
+          const { gl, frameloop } = get();
+          return frameloop === 'never'
+            && Math.abs(gl.domElement.width - width) <= 2
+            && Math.abs(gl.domElement.height - height) <= 2;
+        };
+        while (!isReady()) {
+          if (performance.now() - start > 5000) throw new Error('The canvas could not be resized for capture.');
+          await nextAnimationFrame();
+        }
+        await nextAnimationFrame(); // Let the bloom pass pick up the new size
+
+        const { gl, advance, clock } = get();
+        const output = document.createElement('canvas');
+        output.width = width;
+        output.height = height;
+        const context = output.getContext('2d');
+        if (!context) throw new Error('Could not create the capture canvas.');
+
+        // Where the canvas sits within the overlay, for cropping the UI snapshot
+        const canvasRect = gl.domElement.getBoundingClientRect();
+        const overlayRect = overlay?.getBoundingClientRect();
+
+        const isStill = options.format === 'PNG';
+        const total = isStill ? 1 : options.frames;
+        const step = 1 / options.fps;
+        const frameZip = options.format === 'ZIP' ? createFrameZip() : null;
+
+        let recorder: MediaRecorder | null = null;
+        let track: CanvasCaptureMediaStreamTrack | null = null;
+        const chunks: Blob[] = [];
+        if (options.format === 'WEBM') {
+          const mimeType = webmMimeType();
+          if (!mimeType) throw new Error('This browser cannot record WebM video.');
+          const stream = output.captureStream(0);
+          track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+          recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: width * height * options.fps * 0.2 });
+          recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+          recorder.start();
+        }
+
+        const stepper = createAnimationStepper();
+        // Frame loop 'never' steps the clock by the difference between timestamps
+        let time = clock.elapsedTime;
+        try {
+          for (let i = 0; i < total; i++) {
+            if (signal.aborted) throw new DOMException('Capture cancelled.', 'AbortError');
+            const frameStart = performance.now();
+
+            // A still renders the current moment; sequences advance before every frame
+            if (!isStill) {
+              time += step;
+              stepper.step(step);
+            }
+            advance(time);
+
+            // Copied straight after rendering, before the drawing buffer is cleared
+            context.clearRect(0, 0, width, height);
+            context.drawImage(gl.domElement, 0, 0, width, height);
+            if (options.includeUI && overlay && overlayRect) {
+              const ui = await snapshotElement(overlay);
+              context.drawImage(
+                ui,
+                canvasRect.left - overlayRect.left, canvasRect.top - overlayRect.top, canvasRect.width, canvasRect.height,
+                0, 0, width, height
+              );
+            }
+
+            if (track) {
+              // MediaRecorder timestamps frames as they arrive, so video is paced in real time
+              track.requestFrame();
+              await wait(Math.max(0, frameStart + step * 1000 - performance.now()));
+            } else {
+              const png = await canvasToPng(output);
+              if (frameZip) await frameZip.add(frameFileName(i), png);
+              else downloadBlob(png, captureFileName('png'));
+              await wait(0); // Lets React apply state changes (tour steps, focus) between frames
+            }
+            onProgress({ frame: i + 1, total });
+          }
+
+          if (recorder) {
+            const stopped = new Promise(resolve => { recorder!.onstop = resolve; });
+            recorder.stop();
+            await stopped;
+            downloadBlob(new Blob(chunks, { type: recorder.mimeType }), captureFileName('webm'));
+          } else if (frameZip) {
+            downloadBlob(frameZip.finish(), captureFileName('zip'));
+          }
+        } finally {
+          if (recorder && recorder.state !== 'inactive') recorder.stop();
+          stepper.release();
+        }
+      }
+    };
+    return () => { capturerRef.current = null; };
+  }, [get, capturerRef]);
+
+  return null;
+};
+
+const Scene3D: React.FC<{
+  appState: AppState;
+  isMobile: boolean;
+  gestureRef?: React.MutableRefObject<HandGesture>;
+  handPointerRef?: React.MutableRefObject<HandPointerState>;
+  gamepadRef?: React.MutableRefObject<GamepadInput>;
+  cameraViewRef?: React.MutableRefObject<CameraViewState>;
+  tourProgressRef?: React.MutableRefObject<TourProgress>;
+  cameraPathPlaybackRef?: React.MutableRefObject<CameraPathPlayback>;
+  capture?: CaptureLayout | null; // Set while capturing: frames are rendered on demand at this pixel ratio
+  sceneCaptureRef?: React.MutableRefObject<SceneCapturer | null>;
+  scaleBarRef?: React.MutableRefObject<ScaleBarState>;
+  labelProjectionsRef?: React.MutableRefObject<Map<string, ProjectedBody>>;
+}> = ({ appState, isMobile, gestureRef, handPointerRef, gamepadRef, cameraViewRef, tourProgressRef, cameraPathPlaybackRef, capture, sceneCaptureRef, scaleBarRef, labelProjectionsRef }) => {
   return (
     <Canvas
       camera={{ position: [0, 150, 300], fov: 45, far: 2000 }}
-      dpr={[1, isMobile ? 1.5 : 2]} // Optimization
+      frameloop={capture ? 'never' : 'always'}
+      dpr={capture ? capture.dpr : [1, isMobile ? 1.5 : 2]} // Optimization
       gl={{ antialias: false, toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5 }}
     >
       <color attach="background" args={['#000000']} />
 
-      <Stars radius={600} depth={100} count={isMobile ? 2000 : 8000} factor={4} saturation={0} fade speed={1} />
+      <StarField isMobile={isMobile} />
 
       <ambientLight intensity={0.1} />
-      <pointLight position={[0, 0, 0]} intensity={3} color="#ffaa00" distance={800} decay={1.5} />
+      <SunLight appState={appState} />
 
-      <CameraController appState={appState} gestureRef={gestureRef} />
+      <SimulationClockDriver appState={appState} />
+      {sceneCaptureRef && <SceneCapture capturerRef={sceneCaptureRef} />}
+      <CameraController
+        appState={appState}
+        gestureRef={gestureRef}
+        handPointerRef={handPointerRef}
+        gamepadRef={gamepadRef}
+        cameraViewRef={cameraViewRef}
+        tourProgressRef={tourProgressRef}
+        cameraPathPlaybackRef={cameraPathPlaybackRef}
+      />
 
-      {/* Render Solar System */}
-      <group>
-        {PLANET_DATA.map((planet) => (
-          <Planet
-            key={planet.id}
-            data={planet}
+      {/* Render Active System */}
+      <group key={appState.activeSystem.id}>
+        {appState.bodies.map((planet) => (
+          planet.category === 'comet' && planet.orbit ? (
+            <Comet
+              key={planet.id}
+              data={planet}
+              appState={appState}
+              isMobile={isMobile}
+            />
+          ) : (
+            <Planet
+              key={planet.id}
+              data={planet}
+              appState={appState}
+              isMobile={isMobile}
+            />
+          )
+        ))}
+        {/* Asteroid Belts */}
+        {appState.particleDensity !== 'LOW' && appState.activeSystem.belts.map((belt) => (
+          <AsteroidBelt
+            key={belt.id}
+            belt={belt}
+            count={isMobile ? Math.ceil(belt.count / 3) : belt.count}
             appState={appState}
-            isMobile={isMobile}
           />
         ))}
-        {/* Asteroid Belt */}
-        {appState.particleDensity !== 'LOW' && (
-          <AsteroidBelt count={isMobile ? 500 : ASTEROID_COUNT} appState={appState} />
-        )}
       </group>
 
+      <TourHighlight appState={appState} />
+      <SceneLayers
+        appState={appState}
+        cameraViewRef={cameraViewRef}
+        scaleBarRef={scaleBarRef}
+        labelProjectionsRef={labelProjectionsRef}
+      />
+
       <EffectComposer enableNormalPass={false}>
         <Bloom
           luminanceThreshold={0.2}
@@ -0,0 +1,350 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { AppState, CameraViewState, PlanetData } from '../types';
+import { orbitalPeriod } from '../utils/orbits';
+import { SCALE_MODE_CAMERA, auPerSceneUnit, placeOnScaledOrbit, radialSceneDistance, scenePositionToAU } from '../utils/scaleModes';
+import { GRID_RING_AU, ScaleBarState } from '../utils/layers';
+import { ProjectedBody } from '../utils/labels';
+import { Measurement, measureSeparation, measurementId } from '../utils/measurements';
+import { formatDistance, formatLightTime } from '../utils/units';
+
+// Reference layers drawn over the scene; see utils/layers for the settings.
+// They read bodies at the default frame priority, after the bodies have moved.
+
+const ARC_SEGMENTS = 96;
+const GRID_SPOKES = 12;
+const GRID_COLOR = '#a855f7';
+const MEASUREMENT_COLOR = '#00e0ff';
+const PINNED_MEASUREMENT_COLOR = '#e879f9';
+
+// A stretch of a body's orbit between two offsets from now, in days. Vertex
+// colours fade out the end away from the body; additive blending turns that into transparency.
+const OrbitArc: React.FC<{
+  data: PlanetData;
+  appState: AppState;
+  fromDays: number;
+  toDays: number;
+  fade: 'start' | 'end';
+  dashed?: boolean;
+}> = ({ data, appState, fromDays, toDays, fade, dashed = false }) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const lastUpdate = useRef('');
+  const point = useMemo(() => new THREE.Vector3(), []);
+  const previous = useMemo(() => new THREE.Vector3(), []);
+
+  const { positions, colors, distances } = useMemo(() => {
+    const color = new THREE.Color(data.color);
+    const colors = new Float32Array((ARC_SEGMENTS + 1) * 3);
+    for (let i = 0; i <= ARC_SEGMENTS; i++) {
+      const fraction = fade === 'start' ? i / ARC_SEGMENTS : 1 - i / ARC_SEGMENTS;
+      const brightness = fraction * fraction;
+      colors[i * 3] = color.r * brightness;
+      colors[i * 3 + 1] = color.g * brightness;
+      colors[i * 3 + 2] = color.b * brightness;
+    }
+    return {
+      positions: new Float32Array((ARC_SEGMENTS + 1) * 3),
+      colors,
+      distances: new Float32Array(ARC_SEGMENTS + 1) // Along the line, for the dash pattern
+    };
+  }, [data.color, fade]);
+
+  useFrame(() => {
+    const geometry = geometryRef.current;
+    if (!geometry) return;
+    const days = appState.simulationClock.daysSinceEpoch();
+    const key = `${days}:${appState.scaleTransition.version}:${fromDays}:${toDays}`;
+    if (key === lastUpdate.current) return;
+    lastUpdate.current = key;
+
+    for (let i = 0; i <= ARC_SEGMENTS; i++) {
+      placeOnScaledOrbit(appState.scaleTransition, data, days + THREE.MathUtils.lerp(fromDays, toDays, i / ARC_SEGMENTS), point);
+      point.toArray(positions, i * 3);
+      distances[i] = i === 0 ? 0 : distances[i - 1] + point.distanceTo(previous);
+      previous.copy(point);
+    }
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.lineDistance.needsUpdate = true;
+    geometry.computeBoundingSphere();
+  });
+
+  const material = { vertexColors: true, transparent: true, opacity: 0.8, blending: THREE.AdditiveBlending, depthWrite: false };
+
+  return (
+    <line>
+      <bufferGeometry ref={geometryRef}>
+        <bufferAttribute attach="attributes-position" count={ARC_SEGMENTS + 1} array={positions} itemSize={3} />
+        <bufferAttribute attach="attributes-color" count={ARC_SEGMENTS + 1} array={colors} itemSize={3} />
+        <bufferAttribute attach="attributes-lineDistance" count={ARC_SEGMENTS + 1} array={distances} itemSize={1} />
+      </bufferGeometry>
+      {dashed
+        ? <lineDashedMaterial {...material} dashSize={1} gapSize={0.6} />
+        : <lineBasicMaterial {...material} />}
+    </line>
+  );
+};
+
+// Trails and predicted paths for everything orbiting the star. Moons keep their
+// own short trails. A prediction longer than one orbit would only retrace it.
+const OrbitArcs: React.FC<{ appState: AppState }> = ({ appState }) => {
+  const { layers } = appState;
+  const orbiting = appState.bodies.filter(b => b.orbit && b.distance > 0);
+
+  return (
+    <>
+      {orbiting.map(body => {
+        const period = orbitalPeriod(body.orbit!);
+        return (
+          <React.Fragment key={body.id}>
+            {layers.trails && (
+              <OrbitArc data={body} appState={appState} fromDays={-period * layers.trailLength} toDays={0} fade="start" />
+            )}
+            {layers.predictedPaths && (
+              <OrbitArc data={body} appState={appState} fromDays={0} toDays={Math.min(layers.predictionDays, period)} fade="end" dashed />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+const unitCircle = (() => {
+  const points = new Float32Array((128 + 1) * 3);
+  for (let i = 0; i <= 128; i++) {
+    const angle = (i / 128) * Math.PI * 2;
+    points[i * 3] = Math.cos(angle);
+    points[i * 3 + 2] = Math.sin(angle);
+  }
+  return points;
+})();
+
+const unitSpokes = (() => {
+  const points = new Float32Array(GRID_SPOKES * 2 * 3);
+  for (let i = 0; i < GRID_SPOKES; i++) {
+    const angle = (i / GRID_SPOKES) * Math.PI * 2;
+    points[i * 6 + 3] = Math.cos(angle);
+    points[i * 6 + 5] = Math.sin(angle);
+  }
+  return points;
+})();
+
+// Distance rings in AU on the ecliptic (the XZ plane), out to a little past the
+// outermost orbit. Rings are unit circles scaled to each mode's distance.
+const EclipticGrid: React.FC<{ appState: AppState }> = ({ appState }) => {
+  const ringRefs = useRef<(THREE.Group | null)[]>([]);
+  const spokesRef = useRef<THREE.LineSegments>(null);
+  const lastUpdate = useRef('');
+
+  const rings = useMemo(() => {
+    const outermost = Math.max(1, ...appState.bodies.map(b => b.orbit?.semiMajorAxis ?? 0));
+    return GRID_RING_AU.filter(au => au <= outermost * 1.3);
+  }, [appState.bodies]);
+
+  useFrame(() => {
+    const { scaleTransition, bodies } = appState;
+    // Rings are remade when the system changes, so their scale needs setting again
+    const key = `${scaleTransition.version}:${rings.join()}`;
+    if (key === lastUpdate.current) return;
+    lastUpdate.current = key;
+    rings.forEach((au, i) => {
+      ringRefs.current[i]?.scale.setScalar(scaleTransition.blend(m => radialSceneDistance(m, bodies, au)));
+    });
+    spokesRef.current?.scale.setScalar(scaleTransition.blend(m => radialSceneDistance(m, bodies, rings[rings.length - 1])));
+  });
+
+  return (
+    <group>
+      {rings.map((au, i) => (
+        <group key={au} ref={el => { ringRefs.current[i] = el; }}>
+          <line>
+            <bufferGeometry>
+              <bufferAttribute attach="attributes-position" count={unitCircle.length / 3} array={unitCircle} itemSize={3} />
+            </bufferGeometry>
+            <lineBasicMaterial color={GRID_COLOR} transparent opacity={0.25} depthWrite={false} />
+          </line>
+          <Html position={[1, 0, 0]} center className="pointer-events-none select-none">
+            <span className="text-[10px] font-mono text-purple-300/70 whitespace-nowrap">{au} AU</span>
+          </Html>
+        </group>
+      ))}
+      <lineSegments ref={spokesRef}>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" count={unitSpokes.length / 3} array={unitSpokes} itemSize={3} />
+        </bufferGeometry>
+        <lineBasicMaterial color={GRID_COLOR} transparent opacity={0.12} depthWrite={false} />
+      </lineSegments>
+    </group>
+  );
+};
+
+const AXIS_LENGTH = 1.6; // In body radii, each side of the centre
+const AXIS_POSITIONS = new Float32Array([0, 0, 0, 0, 1, 0, 0, 0, 0, 0, -1, 0]);
+
+// A line through the body along its spin axis: north half white, south half in the body's colour
+const SpinAxis: React.FC<{ data: PlanetData; appState: AppState }> = ({ data, appState }) => {
+  const ref = useRef<THREE.Group>(null);
+
+  const colors = useMemo(() => {
+    const color = new THREE.Color(data.color);
+    return new Float32Array([1, 1, 1, 1, 1, 1, color.r, color.g, color.b, color.r, color.g, color.b]);
+  }, [data.color]);
+
+  useFrame(() => {
+    const body = appState.bodyRegistry.get(data.id);
+    const group = ref.current;
+    if (!group) return;
+    group.visible = !!body;
+    if (!body) return;
+    group.position.copy(body.worldPosition);
+    group.scale.setScalar(body.radius * AXIS_LENGTH);
+  });
+
+  // The pole is tipped towards +X; the data has no pole direction, only the tilt
+  return (
+    <group ref={ref} visible={false} rotation={[0, 0, -THREE.MathUtils.degToRad(data.physical!.axialTilt!)]}>
+      <lineSegments>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" count={4} array={AXIS_POSITIONS} itemSize={3} />
+          <bufferAttribute attach="attributes-color" count={4} array={colors} itemSize={3} />
+        </bufferGeometry>
+        <lineBasicMaterial vertexColors transparent opacity={0.9} depthWrite={false} />
+      </lineSegments>
+    </group>
+  );
+};
+
+// Measures how much distance a screen pixel covers where the camera is looking
+const ScaleBarProbe: React.FC<{
+  appState: AppState;
+  cameraViewRef: React.MutableRefObject<CameraViewState>;
+  scaleBarRef: React.MutableRefObject<ScaleBarState>;
+}> = ({ appState, cameraViewRef, scaleBarRef }) => {
+  useFrame(({ camera, size }) => {
+    const { position, target } = cameraViewRef.current.current;
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 45;
+    const unitsPerPixel = (2 * position.distanceTo(target) * Math.tan(THREE.MathUtils.degToRad(fov) / 2)) / size.height;
+    const mode = appState.scaleTransition.mode;
+    scaleBarRef.current.auPerPixel = unitsPerPixel * auPerSceneUnit(mode, appState.bodies, target.length());
+    scaleBarRef.current.approximate = mode !== 'REALISTIC';
+  });
+  return null;
+};
+
+// A live line between two bodies, labelled at its midpoint with their true
+// separation and light travel time
+const MeasurementLine: React.FC<{ measurement: Measurement; appState: AppState; color: string }> = ({
+  measurement,
+  appState,
+  color
+}) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const labelRef = useRef<THREE.Group>(null);
+  const textRef = useRef<HTMLSpanElement>(null);
+  const positions = useMemo(() => new Float32Array(6), []);
+
+  useFrame(() => {
+    const from = appState.bodyRegistry.get(measurement.from);
+    const to = appState.bodyRegistry.get(measurement.to);
+    const geometry = geometryRef.current;
+    if (!from || !to || !geometry || !labelRef.current) return;
+    from.worldPosition.toArray(positions, 0);
+    to.worldPosition.toArray(positions, 3);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.computeBoundingSphere();
+    labelRef.current.position.lerpVectors(from.worldPosition, to.worldPosition, 0.5);
+
+    const separation = measureSeparation(appState.bodies, measurement, appState.simulationClock.daysSinceEpoch());
+    const text = separation ? `${formatDistance(separation.au, appState.unitSystem)} · ${formatLightTime(separation.lightSeconds)}` : '';
+    if (textRef.current && textRef.current.textContent !== text) textRef.current.textContent = text;
+  });
+
+  return (
+    <>
+      <line>
+        <bufferGeometry ref={geometryRef}>
+          <bufferAttribute attach="attributes-position" count={2} array={positions} itemSize={3} />
+        </bufferGeometry>
+        <lineBasicMaterial color={color} transparent opacity={0.8} depthWrite={false} />
+      </line>
+      <group ref={labelRef}>
+        <Html center className="pointer-events-none select-none">
+          <span
+            ref={textRef}
+            className="px-1 rounded bg-black/60 text-[10px] font-mono whitespace-nowrap"
+            style={{ color }}
+          />
+        </Html>
+      </group>
+    </>
+  );
+};
+
+const LABEL_FADE_START = 0.15; // Labels start fading at this share of the mode's zoom-out limit
+const LABEL_MIN_FADE = 0.25;
+
+// Projects every registered body to the screen for the DOM labels
+const LabelProbe: React.FC<{
+  appState: AppState;
+  projectionsRef: React.MutableRefObject<Map<string, ProjectedBody>>;
+}> = ({ appState, projectionsRef }) => {
+  const point = useMemo(() => new THREE.Vector3(), []);
+  const cameraAU = useMemo(() => new THREE.Vector3(), []);
+  const bodyAU = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(({ camera, size }) => {
+    const projections = projectionsRef.current;
+    const mode = appState.scaleTransition.mode;
+    const maxDistance = SCALE_MODE_CAMERA[mode].maxDistance;
+    const halfHeightPerUnit = size.height / 2 / Math.tan(THREE.MathUtils.degToRad((camera as THREE.PerspectiveCamera).fov ?? 45) / 2);
+    scenePositionToAU(mode, appState.bodies, camera.position, cameraAU);
+
+    projections.clear();
+    appState.bodyRegistry.getAll().forEach(body => {
+      const depth = -point.copy(body.worldPosition).applyMatrix4(camera.matrixWorldInverse).z;
+      point.copy(body.worldPosition).project(camera);
+      const distance = camera.position.distanceTo(body.worldPosition);
+      projections.set(body.id, {
+        x: (point.x + 1) / 2 * size.width,
+        y: (1 - point.y) / 2 * size.height,
+        radius: depth > 0 ? body.radius / depth * halfHeightPerUnit : 0,
+        visible: depth > 0 && Math.abs(point.x) <= 1 && Math.abs(point.y) <= 1,
+        fade: 1 - (1 - LABEL_MIN_FADE) * THREE.MathUtils.smoothstep(distance, maxDistance * LABEL_FADE_START, maxDistance),
+        distanceAU: scenePositionToAU(mode, appState.bodies, body.worldPosition, bodyAU).distanceTo(cameraAU)
+      });
+    });
+  });
+  return null;
+};
+
+const SceneLayers: React.FC<{
+  appState: AppState;
+  cameraViewRef?: React.MutableRefObject<CameraViewState>;
+  scaleBarRef?: React.MutableRefObject<ScaleBarState>;
+  labelProjectionsRef?: React.MutableRefObject<Map<string, ProjectedBody>>;
+}> = ({ appState, cameraViewRef, scaleBarRef, labelProjectionsRef }) => {
+  const { layers, measurement, pinnedMeasurements } = appState;
+  const showDraft = appState.isMeasuring && measurement.from !== measurement.to
+    && !pinnedMeasurements.some(m => measurementId(m) === measurementId(measurement));
+  const tilted = appState.bodies.filter(b => b.physical?.axialTilt !== undefined);
+
+  return (
+    <>
+      {layers.labels && labelProjectionsRef && <LabelProbe appState={appState} projectionsRef={labelProjectionsRef} />}
+      {(layers.trails || layers.predictedPaths) && <OrbitArcs appState={appState} />}
+      {layers.eclipticGrid && <EclipticGrid appState={appState} />}
+      {layers.axes && tilted.map(body => <SpinAxis key={body.id} data={body} appState={appState} />)}
+      {pinnedMeasurements.map(pinned => (
+        <MeasurementLine key={measurementId(pinned)} measurement={pinned} appState={appState} color={PINNED_MEASUREMENT_COLOR} />
+      ))}
+      {showDraft && <MeasurementLine measurement={measurement} appState={appState} color={MEASUREMENT_COLOR} />}
+      {layers.scaleBar && cameraViewRef && scaleBarRef && (
+        <ScaleBarProbe appState={appState} cameraViewRef={cameraViewRef} scaleBarRef={scaleBarRef} />
+      )}
+    </>
+  );
+};
+
+export default SceneLayers;
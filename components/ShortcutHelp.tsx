@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { AppState } from '../types';
+import { DEFAULT_KEYMAP, KEY_ACTION_GROUPS, KeyAction, keyLabel, rebindKey } from '../utils/keymap';
+import { X } from 'lucide-react';
+
+interface ShortcutHelpProps {
+  appState: AppState;
+}
+
+// Lists every keyboard shortcut. Clicking an action's keys waits for a new key
+// to bind it to; bindings are saved with the other preferences.
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ appState }) => {
+  const [listening, setListening] = useState<KeyAction | null>(null);
+  const isOpen = appState.showShortcutHelp;
+  const { keymap, setKeymap } = appState;
+
+  // Grab the next key before any shortcut handler sees it
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') setKeymap(rebindKey(keymap, listening, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, keymap, setKeymap]);
+
+  useEffect(() => {
+    if (!isOpen) setListening(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const keyChip = 'px-1.5 py-0.5 rounded border border-gray-600 bg-gray-800 text-[10px] font-mono text-gray-200';
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm pointer-events-auto">
+      <div className="bg-gray-900 border border-cyan-500 rounded-lg p-6 w-[90%] max-w-lg max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-cyan-400">Keyboard Shortcuts</h2>
+          <button onClick={() => appState.setShowShortcutHelp(false)} className="text-gray-500 hover:text-red-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 pr-1 space-y-4">
+          {KEY_ACTION_GROUPS.map(group => (
+            <div key={group.title}>
+              <h3 className="text-[10px] uppercase tracking-widest text-purple-400 mb-2">{group.title}</h3>
+              <ul className="space-y-1">
+                {group.actions.map(({ action, label }) => (
+                  <li key={action} className="flex justify-between items-center text-xs text-gray-300">
+                    <span>{label}</span>
+                    <button
+                      onClick={() => setListening(listening === action ? null : action)}
+                      className={`flex gap-1 p-0.5 rounded border ${listening === action ? 'border-cyan-400' : 'border-transparent hover:border-gray-600'}`}
+                      title="Click, then press a new key"
+                    >
+                      {listening === action ? (
+                        <span className="px-1.5 py-0.5 text-[10px] text-cyan-300 animate-pulse">Press a key…</span>
+                      ) : keymap[action].length > 0 ? (
+                        keymap[action].map(code => <kbd key={code} className={keyChip}>{keyLabel(code)}</kbd>)
+                      ) : (
+                        <span className="px-1.5 py-0.5 text-[10px] text-gray-600">Unbound</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <div>
+            <h3 className="text-[10px] uppercase tracking-widest text-purple-400 mb-2">Fixed</h3>
+            <ul className="space-y-1">
+              <li className="flex justify-between items-center text-xs text-gray-300">
+                <span>Focus the star, then each planet in order</span>
+                <span className="p-0.5 text-gray-500"><kbd className={keyChip}>1</kbd> – <kbd className={keyChip}>9</kbd></span>
+              </li>
+              <li className="flex justify-between items-center text-xs text-gray-300">
+                <span>Command palette</span>
+                <span className="p-0.5"><kbd className={keyChip}>Ctrl/Cmd+K</kbd></span>
+              </li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-3 border-t border-gray-800 flex justify-between items-center">
+          <span className="text-[10px] text-gray-500">Esc closes. Fixed keys can't be rebound.</span>
+          <button
+            onClick={() => setKeymap(DEFAULT_KEYMAP)}
+            className="px-2 py-1 text-xs border border-red-500/30 rounded text-red-400 hover:bg-red-500/20"
+          >
+            Reset Keys
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState } from '../types';
+
+interface SystemDropZoneProps {
+  appState: AppState;
+}
+
+// Accepts system definition JSON files dropped anywhere on the window and
+// shows loader errors from any source (drop, file picker or ?system= URL).
+const SystemDropZone: React.FC<SystemDropZoneProps> = ({ appState }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepth = useRef(0);
+  const loadRef = useRef(appState.loadSystemFile);
+  loadRef.current = appState.loadSystemFile;
+
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth.current++;
+      setIsDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (dragDepth.current === 0) setIsDragging(false);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dragDepth.current = 0;
+      setIsDragging(false);
+      const file = e.dataTransfer?.files[0];
+      if (file) loadRef.current(file);
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  return (
+    <>
+      {isDragging && (
+        <div className="absolute inset-4 z-50 flex items-center justify-center border-2 border-dashed border-cyan-400 rounded-lg bg-black/70 backdrop-blur-sm pointer-events-none">
+          <span className="text-cyan-300 text-lg uppercase tracking-widest">Drop a system JSON to load it</span>
+        </div>
+      )}
+
+      {appState.systemLoadError && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 max-w-lg w-[90%] bg-black/90 border border-red-500/60 rounded-lg p-4 text-xs text-red-300 backdrop-blur-md pointer-events-auto">
+          <div className="flex justify-between items-start mb-2">
+            <span className="font-bold uppercase tracking-wider text-red-400">System failed to load</span>
+            <button onClick={() => appState.setSystemLoadError(null)} className="text-red-400 hover:text-red-300 ml-4">[DISMISS]</button>
+          </div>
+          <pre className="whitespace-pre-wrap font-mono max-h-60 overflow-y-auto">{appState.systemLoadError}</pre>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SystemDropZone;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AppState } from '../types';
+import { useSimulationDate } from '../hooks/useSimulationDate';
+import {
+  formatJulianDate,
+  TimeStepUnit,
+  TIMELINE_MIN_JD,
+  TIMELINE_MAX_JD
+} from '../utils/simulationClock';
+import { Play, Pause, Rewind, FastForward } from 'lucide-react';
+
+interface TimeControlsProps {
+  appState: AppState;
+}
+
+const STEPS: { unit: TimeStepUnit; label: string }[] = [
+  { unit: 'year', label: 'Y' },
+  { unit: 'month', label: 'M' },
+  { unit: 'day', label: 'D' },
+];
+
+const TimeControls: React.FC<TimeControlsProps> = ({ appState }) => {
+  const clock = appState.simulationClock;
+  const julianDate = useSimulationDate(clock);
+  const isReversed = appState.simulationSpeed < 0;
+
+  const stepButton = (unit: TimeStepUnit, label: string, direction: 1 | -1) => (
+    <button
+      key={`${unit}${direction}`}
+      onClick={() => clock.step(unit, direction)}
+      className="px-1.5 py-0.5 text-[10px] text-gray-400 hover:text-cyan-300 hover:bg-cyan-500/10 rounded transition-colors"
+      title={`Step ${direction > 0 ? 'forward' : 'back'} one ${unit}`}
+    >
+      {direction > 0 ? `+${label}` : `-${label}`}
+    </button>
+  );
+
+  return (
+    <div className="mb-3 w-full max-w-md bg-black/40 border border-cyan-500/30 rounded-lg backdrop-blur-md px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex">
+          {STEPS.map(({ unit, label }) => stepButton(unit, label, -1))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => appState.setSimulationSpeed(-appState.simulationSpeed)}
+            className={`p-1 rounded transition-colors ${isReversed ? 'text-purple-400 bg-purple-500/20' : 'text-gray-400 hover:text-cyan-300'}`}
+            title={isReversed ? 'Run forwards' : 'Run backwards'}
+          >
+            {isReversed ? <FastForward size={14} /> : <Rewind size={14} />}
+          </button>
+          <button
+            onClick={() => appState.setIsPaused(!appState.isPaused)}
+            className="p-1 rounded text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+            title={appState.isPaused ? 'Play' : 'Pause'}
+          >
+            {appState.isPaused ? <Play size={16} /> : <Pause size={16} />}
+          </button>
+          <span className="font-mono text-xs text-cyan-300 tabular-nums">{formatJulianDate(julianDate)}</span>
+        </div>
+
+        <div className="flex">
+          {[...STEPS].reverse().map(({ unit, label }) => stepButton(unit, label, 1))}
+        </div>
+      </div>
+
+      {/* Timeline Scrubber */}
+      <input
+        type="range"
+        min={TIMELINE_MIN_JD}
+        max={TIMELINE_MAX_JD}
+        step={1}
+        value={Math.min(TIMELINE_MAX_JD, Math.max(TIMELINE_MIN_JD, julianDate))}
+        onChange={(e) => clock.setJulianDate(parseFloat(e.target.value))}
+        className="w-full h-1 mt-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+      />
+      <div className="flex justify-between text-[9px] text-gray-600 mt-1">
+        <span>1900</span>
+        <span>{appState.simulationSpeed.toFixed(1)}x</span>
+        <span>2100</span>
+      </div>
+    </div>
+  );
+};
+
+export default TimeControls;
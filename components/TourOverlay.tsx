@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AppState, ControlMode } from '../types';
+import { TourProgress, tourDuration } from '../utils/tours';
+import { useCommandSource } from '../hooks/useCommandSource';
+import { Play, Pause, SkipBack, SkipForward } from 'lucide-react';
+
+interface TourOverlayProps {
+  appState: AppState;
+  progressRef: React.MutableRefObject<TourProgress>;
+}
+
+// Narration captions and playback controls for the AUTO mode tour. Captions
+// stay up when the rest of the UI is hidden, so a kiosk still tells its story.
+const TourOverlay: React.FC<TourOverlayProps> = ({ appState, progressRef }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const isAuto = appState.controlMode === ControlMode.AUTO;
+  const total = useMemo(() => tourDuration(appState.tour), [appState.tour]);
+
+  // The progress bar follows the player every frame without re-rendering
+  useEffect(() => {
+    if (!isAuto) return;
+    let frame = 0;
+    const update = () => {
+      if (barRef.current) {
+        const progress = total > 0 ? Math.min(1, progressRef.current.elapsed / total) : 0;
+        barRef.current.style.width = `${progress * 100}%`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isAuto, total, progressRef]);
+
+  useCommandSource(appState.commandRegistry, () => (isAuto ? [
+    {
+      id: 'tour:play',
+      title: appState.tourPlayback.playing ? 'Pause tour' : 'Play tour',
+      group: 'Tour',
+      run: () => appState.setTourPlaying(!appState.tourPlayback.playing)
+    },
+    { id: 'tour:next', title: 'Next tour chapter', group: 'Tour', keywords: ['skip'], run: appState.nextTourChapter },
+    { id: 'tour:previous', title: 'Previous tour chapter', group: 'Tour', keywords: ['back'], run: appState.previousTourChapter }
+  ] : []));
+
+  if (!isAuto) return null;
+
+  const caption = appState.tourCaption;
+  const { playing } = appState.tourPlayback;
+
+  return (
+    <div className="absolute top-20 md:top-24 left-1/2 -translate-x-1/2 z-[5] w-[90%] max-w-xl flex flex-col items-center gap-2 pointer-events-none">
+      {caption && (
+        <div key={caption.text} className="w-full bg-black/60 border-l-2 border-purple-500 backdrop-blur-md px-4 py-3 rounded-r-lg animate-fade-in-up">
+          {caption.title && (
+            <h3 className="text-sm font-bold text-white uppercase tracking-widest mb-1">{caption.title}</h3>
+          )}
+          <p className="text-sm text-gray-300 leading-snug">{caption.text}</p>
+        </div>
+      )}
+
+      {appState.showUI && (
+        <div className="w-full max-w-xs bg-black/40 border border-cyan-500/30 rounded-lg backdrop-blur-md px-3 py-2 pointer-events-auto">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[10px] uppercase tracking-widest text-cyan-500/80 truncate">{appState.tour.title}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={appState.previousTourChapter}
+                className="p-1 rounded text-gray-400 hover:text-cyan-300 transition-colors"
+                title="Previous"
+              >
+                <SkipBack size={14} />
+              </button>
+              <button
+                onClick={() => appState.setTourPlaying(!playing)}
+                className="p-1 rounded text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+                title={playing ? 'Pause tour' : 'Play tour'}
+              >
+                {playing ? <Pause size={16} /> : <Play size={16} />}
+              </button>
+              <button
+                onClick={appState.nextTourChapter}
+                className="p-1 rounded text-gray-400 hover:text-cyan-300 transition-colors"
+                title="Next"
+              >
+                <SkipForward size={14} />
+              </button>
+            </div>
+          </div>
+          <div className="h-1 mt-2 bg-gray-700 rounded overflow-hidden">
+            <div ref={barRef} className="h-full bg-cyan-500" style={{ width: 0 }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TourOverlay;
@@ -1,28 +1,135 @@
-import React, { useState } from 'react';
-import { AppState, ControlMode } from '../types';
-import { PLANET_DATA } from '../constants';
+import React, { useEffect, useState } from 'react';
+import { AppState, BodyCategory, ControlMode, PlanetData } from '../types';
+import TimeControls from './TimeControls';
+import CapturePanel from './CapturePanel';
+import MeasurePanel from './MeasurePanel';
+import { SOLAR_SYSTEM } from '../constants';
+import { HandednessPreference } from '../utils/handPose';
+import { findMoon } from '../utils/systemLoader';
+import { SCALE_MODES, SCALE_MODE_LABELS } from '../utils/scaleModes';
+import { orbitalPeriod } from '../utils/orbits';
+import { defaultMeasurement } from '../utils/measurements';
+import { LAYER_LABELS, LayerToggle, PREDICTION_DAYS, TRAIL_LENGTHS } from '../utils/layers';
+import {
+  UnitSystem,
+  formatAU,
+  formatAcceleration,
+  formatAngle,
+  formatDuration,
+  formatLength,
+  formatMass,
+  formatRotation,
+  formatSpeed,
+  formatTemperature
+} from '../utils/units';
 import {
   Maximize,
   MousePointer2,
   Keyboard as KeyboardIcon,
   Video,
   Hand,
+  Gamepad2,
+  Search,
   Info,
   Settings,
+  Link,
+  Check,
+  Clapperboard,
+  Telescope,
+  Aperture,
+  Ruler,
   X
 } from 'lucide-react';
 
+const CATEGORY_LABELS: Record<BodyCategory, string> = {
+  star: 'Star',
+  planet: 'Planets',
+  dwarf: 'Dwarf Planets',
+  comet: 'Comets',
+};
+
+const CATEGORY_TITLES: Record<BodyCategory, string> = {
+  star: 'Star',
+  planet: 'Planet',
+  dwarf: 'Dwarf Planet',
+  comet: 'Periodic Comet',
+};
+
+// Info panel rows for whatever the body's data provides
+const bodyStats = (body: PlanetData, units: UnitSystem): { label: string; value: string }[] => {
+  const physical = body.physical;
+  const stats: { label: string; value: string | null }[] = [
+    { label: 'Semi-major Axis', value: body.orbit ? formatAU(body.orbit.semiMajorAxis, units) : null },
+    { label: 'Orbital Period', value: body.orbit ? formatDuration(orbitalPeriod(body.orbit)) : null },
+    { label: 'Mean Radius', value: physical ? formatLength(physical.meanRadius, units) : null },
+    { label: 'Mass', value: physical?.mass ? formatMass(physical.mass, units) : null },
+    { label: 'Rotation Period', value: physical?.rotationPeriod ? formatRotation(physical.rotationPeriod) : null },
+    { label: 'Axial Tilt', value: physical?.axialTilt !== undefined ? formatAngle(physical.axialTilt) : null },
+    { label: 'Surface Gravity', value: physical?.surfaceGravity ? formatAcceleration(physical.surfaceGravity, units) : null },
+    { label: 'Mean Temperature', value: physical?.meanTemperature ? formatTemperature(physical.meanTemperature, units) : null },
+    { label: 'Escape Velocity', value: physical?.escapeVelocity ? formatSpeed(physical.escapeVelocity, units) : null },
+    { label: 'Moons', value: body.category === 'star' || body.category === 'comet' ? null : String(body.moons ?? 0) },
+  ];
+  return stats.filter((stat): stat is { label: string; value: string } => stat.value !== null);
+};
+
 interface UIOverlayProps {
   appState: AppState;
   isMobile: boolean;
 }
 
 const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
-  const [showSettings, setShowSettings] = useState(false);
+  const { showSettings, setShowSettings } = appState;
   const [showAbout, setShowAbout] = useState(false);
+  const [showCapture, setShowCapture] = useState(false);
+
+  // The settings, capture and measurement panels share a spot; settings and
+  // measuring can also open from the keyboard or the command palette
+  useEffect(() => {
+    if (showSettings) {
+      setShowCapture(false);
+      appState.setIsMeasuring(false);
+    }
+  }, [showSettings]);
+  useEffect(() => {
+    if (appState.isMeasuring) {
+      setShowCapture(false);
+      setShowSettings(false);
+    }
+  }, [appState.isMeasuring]);
+
+  // The camera path editor and the event finder open in the same spot
+  useEffect(() => {
+    if (appState.isEditingCameraPath) appState.setShowEventFinder(false);
+  }, [appState.isEditingCameraPath]);
+  useEffect(() => {
+    if (appState.showEventFinder) appState.setIsEditingCameraPath(false);
+  }, [appState.showEventFinder]);
+  const [bodyFilter, setBodyFilter] = useState<BodyCategory | 'ALL'>('ALL');
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleCopyLink = () => {
+    appState.copyViewLink()
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(error => console.error('Could not copy link', error));
+  };
+
+  // Filter tabs only for categories the active system actually has; the star is always listed
+  const categories = (['planet', 'dwarf', 'comet'] as BodyCategory[])
+    .filter(c => appState.bodies.some(p => (p.category ?? 'planet') === c));
+  const activeFilter = bodyFilter !== 'ALL' && categories.includes(bodyFilter) ? bodyFilter : 'ALL';
+  const stripBodies = appState.bodies.filter(p => (
+    activeFilter === 'ALL' || p.category === 'star' || (p.category ?? 'planet') === activeFilter
+  ));
 
   const activePlanet = appState.focusedBody
-    ? PLANET_DATA.find(p => p.id === appState.focusedBody)
+    ? appState.bodies.find(p => p.id === appState.focusedBody)
+    : null;
+  const activeMoon = appState.focusedBody && !activePlanet
+    ? findMoon(appState.bodies, appState.focusedBody)
     : null;
 
   const controlModeIcon = {
@@ -30,6 +137,7 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
     [ControlMode.KEYBOARD]: <KeyboardIcon size={18} />,
     [ControlMode.AUTO]: <Video size={18} />,
     [ControlMode.HAND]: <Hand size={18} />,
+    [ControlMode.GAMEPAD]: <Gamepad2 size={18} />,
   };
 
   return (
@@ -42,9 +150,61 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
             SOLAR<span className="text-white">OS</span>
           </h1>
           <div className="text-xs text-cyan-500/80 tracking-widest uppercase">System Visualization v2.0</div>
+          {appState.activeSystem.id !== SOLAR_SYSTEM.id && (
+            <div className="text-xs text-purple-400 tracking-widest uppercase">{appState.activeSystem.name}</div>
+          )}
         </div>
 
         <div className="flex gap-2">
+          <button
+            onClick={() => appState.setShowCommandPalette(true)}
+            title="Search bodies and commands (Ctrl+K)"
+            className="p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 text-cyan-400 transition-colors backdrop-blur-md"
+          >
+            <Search size={20} />
+          </button>
+          <button
+            onClick={handleCopyLink}
+            title="Copy link to this view"
+            className="p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 text-cyan-400 transition-colors backdrop-blur-md"
+          >
+            {linkCopied ? <Check size={20} /> : <Link size={20} />}
+          </button>
+          <button
+            onClick={() => appState.setIsEditingCameraPath(!appState.isEditingCameraPath)}
+            title="Camera path editor"
+            className={`p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 transition-colors backdrop-blur-md ${appState.isEditingCameraPath ? 'text-white bg-cyan-500/30' : 'text-cyan-400'}`}
+          >
+            <Clapperboard size={20} />
+          </button>
+          <button
+            onClick={() => appState.setShowEventFinder(!appState.showEventFinder)}
+            title="Find sky events"
+            className={`p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 transition-colors backdrop-blur-md ${appState.showEventFinder ? 'text-white bg-cyan-500/30' : 'text-cyan-400'}`}
+          >
+            <Telescope size={20} />
+          </button>
+          <button
+            onClick={() => {
+              setShowCapture(!showCapture);
+              setShowSettings(false);
+              appState.setIsMeasuring(false);
+            }}
+            title="Capture images and video"
+            className={`p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 transition-colors backdrop-blur-md ${showCapture ? 'text-white bg-cyan-500/30' : 'text-cyan-400'}`}
+          >
+            <Aperture size={20} />
+          </button>
+          <button
+            onClick={() => {
+              if (!appState.isMeasuring) appState.setMeasurement(defaultMeasurement(appState.bodies, appState.focusedBody));
+              appState.setIsMeasuring(!appState.isMeasuring);
+            }}
+            title="Measure distances"
+            className={`p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 transition-colors backdrop-blur-md ${appState.isMeasuring ? 'text-white bg-cyan-500/30' : 'text-cyan-400'}`}
+          >
+            <Ruler size={20} />
+          </button>
           <button
             onClick={() => setShowSettings(!showSettings)}
             className="p-2 bg-black/40 border border-cyan-500/30 rounded hover:bg-cyan-500/20 text-cyan-400 transition-colors backdrop-blur-md"
@@ -67,8 +227,11 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
       </div>
 
       {/* Settings Modal (Overlay) */}
+      {showCapture && <CapturePanel appState={appState} onClose={() => setShowCapture(false)} />}
+      {appState.isMeasuring && <MeasurePanel appState={appState} />}
+
       {showSettings && (
-        <div className="absolute top-20 right-4 w-64 bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-4 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-50">
+        <div className="absolute top-20 right-4 w-64 max-h-[calc(100vh-6rem)] overflow-y-auto bg-black/80 border border-cyan-500/50 backdrop-blur-lg p-4 rounded-lg shadow-[0_0_15px_rgba(0,255,255,0.2)] pointer-events-auto z-50">
           <h3 className="text-cyan-400 font-bold mb-4 uppercase text-sm border-b border-gray-800 pb-2">Configuration</h3>
 
           {/* Control Mode */}
@@ -86,8 +249,56 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
                 </button>
               ))}
             </div>
+            <button
+              onClick={() => appState.setShowShortcutHelp(true)}
+              className="mt-2 w-full py-1 text-xs border border-gray-700 rounded text-gray-400 hover:text-cyan-300 hover:border-cyan-500/60"
+            >
+              Keyboard Shortcuts
+            </button>
           </div>
 
+          {/* Hand Tracking */}
+          {appState.controlMode === ControlMode.HAND && (
+            <div className="mb-4">
+              <label className="text-xs text-gray-400 mb-2 block">Gesture Hand</label>
+              <div className="flex text-xs border border-gray-700 rounded overflow-hidden mb-2">
+                {(['auto', 'Left', 'Right'] as HandednessPreference[]).map((hand) => (
+                  <button
+                    key={hand}
+                    onClick={() => appState.setGestureCalibration({ ...appState.gestureCalibration, handedness: hand })}
+                    className={`flex-1 py-1 uppercase ${appState.gestureCalibration.handedness === hand ? 'bg-cyan-900/80 text-cyan-200' : 'bg-black/50 text-gray-500 hover:bg-gray-800'}`}
+                  >
+                    {hand}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => {
+                  appState.setIsCalibrating(true);
+                  setShowSettings(false);
+                }}
+                className="w-full py-1 text-xs border border-cyan-500/30 rounded text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+              >
+                {appState.gestureCalibration.calibratedAt ? 'Recalibrate Gestures' : 'Calibrate Gestures'}
+              </button>
+            </div>
+          )}
+
+          {/* Gamepad */}
+          {appState.controlMode === ControlMode.GAMEPAD && (
+            <div className="mb-4">
+              <button
+                onClick={() => {
+                  appState.setIsMappingGamepad(true);
+                  setShowSettings(false);
+                }}
+                className="w-full py-1 text-xs border border-cyan-500/30 rounded text-cyan-400 hover:bg-cyan-500/20 transition-colors"
+              >
+                Map Controller
+              </button>
+            </div>
+          )}
+
           {/* Simulation Speed */}
           <div className="mb-4">
             <div className="flex justify-between mb-1">
@@ -95,13 +306,72 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
               <span className="text-xs text-cyan-400">{appState.simulationSpeed.toFixed(1)}x</span>
             </div>
             <input
-              type="range" min="0" max="5" step="0.1"
+              type="range" min="-5" max="5" step="0.1"
               value={appState.simulationSpeed}
               onChange={(e) => appState.setSimulationSpeed(parseFloat(e.target.value))}
               className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
             />
           </div>
 
+          {/* Scale */}
+          <div className="mb-4">
+            <label className="text-xs text-gray-400 mb-2 block">Scale</label>
+            <div className="flex text-xs border border-gray-700 rounded overflow-hidden">
+              {SCALE_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => appState.setScaleMode(mode)}
+                  className={`flex-1 py-1 ${appState.scaleMode === mode ? 'bg-cyan-900/80 text-cyan-200' : 'bg-black/50 text-gray-500 hover:bg-gray-800'}`}
+                >
+                  {SCALE_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Layers */}
+          <div className="mb-4">
+            <label className="text-xs text-gray-400 mb-2 block">Layers</label>
+            <div className="space-y-1">
+              {(Object.keys(LAYER_LABELS) as LayerToggle[]).map(layer => (
+                <div key={layer} className="flex justify-between items-center gap-2">
+                  <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={appState.layers[layer]}
+                      onChange={(e) => appState.setLayers({ ...appState.layers, [layer]: e.target.checked })}
+                      disabled={layer === 'labelDistances' && !appState.layers.labels}
+                      className="accent-cyan-500 disabled:opacity-40"
+                    />
+                    {LAYER_LABELS[layer]}
+                  </label>
+                  {layer === 'trails' && (
+                    <select
+                      value={appState.layers.trailLength}
+                      onChange={(e) => appState.setLayers({ ...appState.layers, trailLength: parseFloat(e.target.value) })}
+                      disabled={!appState.layers.trails}
+                      title="Trail length, as a share of each orbit"
+                      className="bg-gray-800 border border-gray-700 rounded text-[10px] text-gray-300 px-1 disabled:opacity-40"
+                    >
+                      {TRAIL_LENGTHS.map(length => <option key={length} value={length}>{length * 100}% orbit</option>)}
+                    </select>
+                  )}
+                  {layer === 'predictedPaths' && (
+                    <select
+                      value={appState.layers.predictionDays}
+                      onChange={(e) => appState.setLayers({ ...appState.layers, predictionDays: parseInt(e.target.value, 10) })}
+                      disabled={!appState.layers.predictedPaths}
+                      title="How far ahead to predict"
+                      className="bg-gray-800 border border-gray-700 rounded text-[10px] text-gray-300 px-1 disabled:opacity-40"
+                    >
+                      {PREDICTION_DAYS.map(days => <option key={days} value={days}>{days} days</option>)}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Bloom */}
           <div className="mb-4">
             <div className="flex justify-between mb-1">
@@ -116,6 +386,37 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
             />
           </div>
 
+          {/* Planetary System */}
+          <div className="mb-4">
+            <div className="flex justify-between mb-1">
+              <label className="text-xs text-gray-400">Planetary System</label>
+              <span className="text-xs text-cyan-400 truncate ml-2">{appState.activeSystem.name}</span>
+            </div>
+            <div className="flex gap-1">
+              <label className="flex-1 py-1 text-xs text-center border border-cyan-500/30 rounded text-cyan-400 hover:bg-cyan-500/20 transition-colors cursor-pointer">
+                Load JSON
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) appState.loadSystemFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {appState.activeSystem.id !== SOLAR_SYSTEM.id && (
+                <button
+                  onClick={() => appState.setActiveSystem(SOLAR_SYSTEM)}
+                  className="flex-1 py-1 text-xs border border-gray-700 rounded text-gray-400 hover:bg-gray-800 transition-colors"
+                >
+                  Solar System
+                </button>
+              )}
+            </div>
+          </div>
+
           {/* Quality */}
           <div className="mb-2">
             <label className="text-xs text-gray-400 mb-2 block">Particle Quality</label>
@@ -131,6 +432,13 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
               ))}
             </div>
           </div>
+
+          <button
+            onClick={appState.resetPreferences}
+            className="w-full py-1 text-xs border border-red-500/30 rounded text-red-400 hover:bg-red-500/20"
+          >
+            Reset to Defaults
+          </button>
         </div>
       )}
 
@@ -145,9 +453,10 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
             </p>
             <ul className="text-xs text-gray-400 space-y-2 mb-6">
               <li>• <strong className="text-white">Mouse Mode:</strong> Drag to rotate, scroll to zoom, click to focus.</li>
-              <li>• <strong className="text-white">Keyboard:</strong> Arrows to move, W/S for elevation, Space to reset.</li>
-              <li>• <strong className="text-white">Hand:</strong> Fist to rotate, Pinch to zoom, Palm to exit.</li>
-              <li>• <strong className="text-white">Auto:</strong> Cinematic tour mode.</li>
+              <li>• <strong className="text-white">Keyboard:</strong> Fly with W/A/S/D, R/F, arrows to turn and Q/E to roll; 1–9 focus planets. Press ? for every shortcut.</li>
+              <li>• <strong className="text-white">Hand:</strong> Two fingers to rotate, two hands to zoom, point and hold or pinch to select, palm to exit.</li>
+              <li>• <strong className="text-white">Gamepad:</strong> Sticks orbit and zoom, shoulder buttons step through bodies, triggers scrub time.</li>
+              <li>• <strong className="text-white">Auto:</strong> Narrated guided tour with play, pause and chapter controls.</li>
             </ul>
             <button
               onClick={() => setShowAbout(false)}
@@ -170,37 +479,109 @@ const UIOverlay: React.FC<UIOverlayProps> = ({ appState, isMobile }) => {
               </h2>
               <button onClick={() => appState.setFocusedBody(null)} className="text-xs text-red-400 hover:text-red-300 ml-4">[CLOSE FOCUS]</button>
             </div>
-
-            <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-2">
-              <div>
-                <span className="block text-gray-500 uppercase text-[10px]">Distance</span>
-                {activePlanet.distance === 0 ? '0 AU' : `${(activePlanet.distance / 75).toFixed(1)} AU`}
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-[10px] uppercase tracking-widest text-cyan-600">
+                {CATEGORY_TITLES[activePlanet.category ?? 'planet']}
+              </span>
+              <div className="flex text-[10px] border border-gray-700 rounded overflow-hidden">
+                {(['METRIC', 'IMPERIAL'] as UnitSystem[]).map(units => (
+                  <button
+                    key={units}
+                    onClick={() => appState.setUnitSystem(units)}
+                    className={`px-2 py-0.5 uppercase ${appState.unitSystem === units ? 'bg-cyan-900/80 text-cyan-200' : 'bg-black/50 text-gray-500 hover:bg-gray-800'}`}
+                  >
+                    {units === 'METRIC' ? 'Metric' : 'Imperial'}
+                  </button>
+                ))}
               </div>
-              <div>
-                <span className="block text-gray-500 uppercase text-[10px]">Moons</span>
-                {activePlanet.moons}
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs text-gray-400 mb-2">
+              {bodyStats(activePlanet, appState.unitSystem).map(stat => (
+                <div key={stat.label}>
+                  <span className="block text-gray-500 uppercase text-[10px]">{stat.label}</span>
+                  {stat.value}
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-300 leading-snug border-t border-gray-700 pt-2 mt-2">
+              {activePlanet.details}
+            </p>
+            {activePlanet.moonCatalog && activePlanet.moonCatalog.length > 0 && (
+              <div className="flex flex-wrap gap-1 border-t border-gray-700 pt-2 mt-2">
+                {activePlanet.moonCatalog.map(moon => (
+                  <button
+                    key={moon.id}
+                    onClick={() => appState.setFocusedBody(moon.id)}
+                    className="px-2 py-0.5 text-[10px] uppercase tracking-wider border border-gray-700 rounded text-gray-400 hover:text-cyan-300 hover:border-cyan-500/60 transition-colors"
+                  >
+                    {moon.name}
+                  </button>
+                ))}
               </div>
+            )}
+          </div>
+        )}
+
+        {/* Active Moon Info Panel */}
+        {activeMoon && (
+          <div className="mb-4 bg-black/60 border-l-2 border-purple-500 backdrop-blur-md p-4 rounded-r-lg max-w-md animate-fade-in-up self-start md:self-center">
+            <div className="flex justify-between items-baseline mb-1">
+              <h2 className="text-2xl font-bold text-white uppercase tracking-wider" style={{ textShadow: `0 0 10px ${activeMoon.moon.color ?? activeMoon.parent.color}` }}>
+                {activeMoon.moon.name}
+              </h2>
+              <button onClick={() => appState.setFocusedBody(null)} className="text-xs text-red-400 hover:text-red-300 ml-4">[CLOSE FOCUS]</button>
+            </div>
+            <button
+              onClick={() => appState.setFocusedBody(activeMoon.parent.id)}
+              className="text-xs text-purple-300 hover:text-purple-200 mb-2"
+            >
+              &larr; Moon of {activeMoon.parent.name}
+            </button>
+
+            <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-2">
               <div>
-                <span className="block text-gray-500 uppercase text-[10px]">Radius</span>
-                {activePlanet.radius}x Earth
+                <span className="block text-gray-500 uppercase text-[10px]">Orbital Period</span>
+                {formatDuration(activeMoon.moon.period)}
               </div>
               <div>
-                <span className="block text-gray-500 uppercase text-[10px]">Orbit Speed</span>
-                {activePlanet.speed} km/s
+                <span className="block text-gray-500 uppercase text-[10px]">Orbit</span>
+                {(activeMoon.moon.inclination ?? 0) > 90 ? 'Retrograde' : 'Prograde'}
               </div>
             </div>
-            <p className="text-sm text-gray-300 leading-snug border-t border-gray-700 pt-2 mt-2">
-              {activePlanet.details}
-            </p>
+            {activeMoon.moon.details && (
+              <p className="text-sm text-gray-300 leading-snug border-t border-gray-700 pt-2 mt-2">
+                {activeMoon.moon.details}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Simulation Time */}
+        <TimeControls appState={appState} />
+
+        {/* Category Filter */}
+        {categories.length > 1 && (
+          <div className="flex gap-1 mb-2">
+            {(['ALL', ...categories] as (BodyCategory | 'ALL')[]).map(c => (
+              <button
+                key={c}
+                onClick={() => setBodyFilter(c)}
+                className={`px-2 py-0.5 text-[10px] uppercase tracking-wider rounded border transition-colors ${activeFilter === c ? 'border-cyan-500 text-cyan-300 bg-cyan-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+              >
+                {c === 'ALL' ? 'All' : CATEGORY_LABELS[c]}
+              </button>
+            ))}
           </div>
         )}
 
         {/* Planet Quick Select */}
         <div className="flex gap-2 overflow-x-auto w-full md:w-auto max-w-full pb-2 px-2 mask-linear-gradient">
-          {PLANET_DATA.map((p) => (
+          {stripBodies.map((p) => (
             <button
               key={p.id}
               onClick={() => appState.setFocusedBody(p.id)}
+              title={p.name}
               className={`
                 group relative flex flex-col items-center min-w-[60px] p-2 rounded transition-all
                 ${appState.focusedBody === p.id ? 'bg-white/10' : 'hover:bg-white/5'}
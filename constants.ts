@@ -1,19 +1,29 @@
-import { PlanetData } from './types';
+import { BeltData, PlanetData, StarData, SystemDefinition } from './types';
 
 // Using "Artistic" scaling because realistic scaling makes planets invisible dots
 // Distances adjusted to prevent visual overlapping
+// `distance` sizes each orbit in the scene; `orbit` supplies its real shape and
+// orientation (JPL approximate elements, J2000 epoch); `physical` holds measured values
+// from the NASA planetary fact sheets
+export const SUN_DATA: StarData = {
+  id: 'sun',
+  name: 'Sun',
+  radius: 12,
+  rotationSpeed: 0.005,
+  color: '#ffaa00', // Neon Orange/Gold
+  details: 'The star at the center of our Solar System. A nearly perfect sphere of hot plasma.',
+  physical: {
+    meanRadius: 695700,
+    mass: 1.989e30,
+    rotationPeriod: 609.12,
+    axialTilt: 7.25,
+    surfaceGravity: 274,
+    meanTemperature: 5772, // Photosphere
+    escapeVelocity: 617.7
+  }
+};
+
 export const PLANET_DATA: PlanetData[] = [
-  {
-    id: 'sun',
-    name: 'Sun',
-    radius: 12,
-    distance: 0,
-    speed: 0,
-    rotationSpeed: 0.005,
-    color: '#ffaa00', // Neon Orange/Gold
-    details: 'The star at the center of our Solar System. A nearly perfect sphere of hot plasma.',
-    moons: 0
-  },
   {
     id: 'mercury',
     name: 'Mercury',
@@ -23,7 +33,24 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.01,
     color: '#00e0ff', // Electric Cyan
     details: 'The smallest planet in the Solar System and the closest to the Sun.',
-    moons: 0
+    moons: 0,
+    physical: {
+      meanRadius: 2439.7,
+      mass: 3.301e23,
+      rotationPeriod: 1407.6,
+      axialTilt: 0.034,
+      surfaceGravity: 3.7,
+      meanTemperature: 440,
+      escapeVelocity: 4.3
+    },
+    orbit: {
+      semiMajorAxis: 0.38709927,
+      eccentricity: 0.20563593,
+      inclination: 7.00497902,
+      longitudeOfAscendingNode: 48.33076593,
+      argumentOfPerihelion: 29.12703035,
+      meanAnomalyAtEpoch: 174.79252722
+    }
   },
   {
     id: 'venus',
@@ -34,7 +61,24 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.008,
     color: '#ff00ff', // Hot Pink
     details: 'The second planet from the Sun. It has the hottest planetary surface in the solar system.',
-    moons: 0
+    moons: 0,
+    physical: {
+      meanRadius: 6051.8,
+      mass: 4.867e24,
+      rotationPeriod: -5832.5,
+      axialTilt: 177.4,
+      surfaceGravity: 8.87,
+      meanTemperature: 737,
+      escapeVelocity: 10.36
+    },
+    orbit: {
+      semiMajorAxis: 0.72333566,
+      eccentricity: 0.00677672,
+      inclination: 3.39467605,
+      longitudeOfAscendingNode: 76.67984255,
+      argumentOfPerihelion: 54.92262463,
+      meanAnomalyAtEpoch: 50.37663232
+    }
   },
   {
     id: 'earth',
@@ -45,7 +89,27 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.02,
     color: '#00ff41', // Matrix Green / Neon Lime
     details: 'Our home. The only astronomical object known to harbor life.',
-    moons: 1
+    moons: 1,
+    moonCatalog: [
+      { id: 'luna', name: 'Moon', distance: 3, radius: 0.27, period: 27.322, inclination: 5.1, phase: 0, color: '#d0ffd8', details: "Earth's only natural satellite, tidally locked so the same face always points toward us." }
+    ],
+    physical: {
+      meanRadius: 6371.0,
+      mass: 5.972e24,
+      rotationPeriod: 23.9345,
+      axialTilt: 23.44,
+      surfaceGravity: 9.81,
+      meanTemperature: 288,
+      escapeVelocity: 11.19
+    },
+    orbit: {
+      semiMajorAxis: 1.00000261,
+      eccentricity: 0.01671123,
+      inclination: -0.00001531,
+      longitudeOfAscendingNode: 0.0,
+      argumentOfPerihelion: 102.93768193,
+      meanAnomalyAtEpoch: 357.52688973
+    }
   },
   {
     id: 'mars',
@@ -56,7 +120,28 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.018,
     color: '#ff3333', // Neon Red
     details: 'The Red Planet. Home to Olympus Mons, the largest volcano in the solar system.',
-    moons: 2
+    moons: 2,
+    moonCatalog: [
+      { id: 'phobos', name: 'Phobos', distance: 2, radius: 0.1, period: 0.319, inclination: 1.1, phase: 40, details: 'The larger, inner moon of Mars, spiralling slowly inward and destined to break apart.' },
+      { id: 'deimos', name: 'Deimos', distance: 3, radius: 0.07, period: 1.263, inclination: 1.8, phase: 200, details: 'The smaller, outer moon of Mars, probably a captured asteroid.' }
+    ],
+    physical: {
+      meanRadius: 3389.5,
+      mass: 6.417e23,
+      rotationPeriod: 24.6229,
+      axialTilt: 25.19,
+      surfaceGravity: 3.71,
+      meanTemperature: 210,
+      escapeVelocity: 5.03
+    },
+    orbit: {
+      semiMajorAxis: 1.52371034,
+      eccentricity: 0.0933941,
+      inclination: 1.84969142,
+      longitudeOfAscendingNode: 49.55953891,
+      argumentOfPerihelion: 286.4968315,
+      meanAnomalyAtEpoch: 19.39019754
+    }
   },
   {
     id: 'jupiter',
@@ -67,7 +152,30 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.04,
     color: '#bf00ff', // Electric Purple
     details: 'The largest planet in the Solar System. A gas giant with a mass one-thousandth that of the Sun.',
-    moons: 95
+    moons: 95,
+    moonCatalog: [
+      { id: 'io', name: 'Io', distance: 1.8, radius: 0.09, period: 1.769, phase: 0, color: '#ffee55', details: 'The most volcanically active body in the Solar System, heated by tidal flexing.' },
+      { id: 'europa', name: 'Europa', distance: 2.3, radius: 0.08, period: 3.551, inclination: 0.5, phase: 90, color: '#ddeeff', details: 'An ice-covered moon hiding a global salt-water ocean, a prime target in the search for life.' },
+      { id: 'ganymede', name: 'Ganymede', distance: 2.9, radius: 0.12, period: 7.155, inclination: 0.2, phase: 180, details: 'The largest moon in the Solar System, bigger than Mercury and the only moon with its own magnetic field.' },
+      { id: 'callisto', name: 'Callisto', distance: 3.8, radius: 0.11, period: 16.689, inclination: 0.3, phase: 270, details: 'A heavily cratered, ancient surface that has barely changed in four billion years.' }
+    ],
+    physical: {
+      meanRadius: 69911,
+      mass: 1.898e27,
+      rotationPeriod: 9.925,
+      axialTilt: 3.13,
+      surfaceGravity: 24.79,
+      meanTemperature: 165, // Gas giants: at the 1 bar level
+      escapeVelocity: 59.5
+    },
+    orbit: {
+      semiMajorAxis: 5.202887,
+      eccentricity: 0.04838624,
+      inclination: 1.30439695,
+      longitudeOfAscendingNode: 100.47390909,
+      argumentOfPerihelion: 274.25457074,
+      meanAnomalyAtEpoch: 19.66796068
+    }
   },
   {
     id: 'saturn',
@@ -79,7 +187,30 @@ export const PLANET_DATA: PlanetData[] = [
     color: '#ffd700', // Neon Gold
     details: 'Famous for its prominent ring system. It is a gas giant with an average radius of about nine and a half times that of Earth.',
     moons: 146,
-    hasRings: true
+    moonCatalog: [
+      { id: 'enceladus', name: 'Enceladus', distance: 2.5, radius: 0.06, period: 1.370, phase: 30, color: '#ffffff', details: 'Jets of water vapour erupt from its south pole, feeding Saturn\'s E ring.' },
+      { id: 'rhea', name: 'Rhea', distance: 3.1, radius: 0.08, period: 4.518, inclination: 0.3, phase: 150, details: 'Saturn\'s second-largest moon, a cold, airless ball of ice and rock.' },
+      { id: 'titan', name: 'Titan', distance: 4, radius: 0.13, period: 15.945, inclination: 0.3, phase: 260, color: '#ffaa33', details: 'The only moon with a thick atmosphere, and lakes of liquid methane on its surface.' },
+      { id: 'iapetus', name: 'Iapetus', distance: 5.2, radius: 0.07, period: 79.32, inclination: 15.5, phase: 330, details: 'Two-toned moon with one hemisphere as dark as coal and the other bright as snow.' }
+    ],
+    hasRings: true,
+    physical: {
+      meanRadius: 58232,
+      mass: 5.683e26,
+      rotationPeriod: 10.656,
+      axialTilt: 26.73,
+      surfaceGravity: 10.44,
+      meanTemperature: 134,
+      escapeVelocity: 35.5
+    },
+    orbit: {
+      semiMajorAxis: 9.53667594,
+      eccentricity: 0.05386179,
+      inclination: 2.48599187,
+      longitudeOfAscendingNode: 113.66242448,
+      argumentOfPerihelion: 338.93645383,
+      meanAnomalyAtEpoch: 317.35536592
+    }
   },
   {
     id: 'uranus',
@@ -90,7 +221,31 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.03,
     color: '#00ffff', // Cyan
     details: 'It has the coldest planetary atmosphere in the Solar System.',
-    moons: 27
+    moons: 27,
+    moonCatalog: [
+      { id: 'miranda', name: 'Miranda', distance: 1.8, radius: 0.07, period: 1.413, inclination: 4.2, phase: 0, details: 'A patchwork of giant canyons and terraces, including 20 km high cliffs.' },
+      { id: 'ariel', name: 'Ariel', distance: 2.2, radius: 0.09, period: 2.520, phase: 72, details: 'The brightest of Uranus\'s moons, with the youngest-looking surface.' },
+      { id: 'umbriel', name: 'Umbriel', distance: 2.7, radius: 0.09, period: 4.144, phase: 144, details: 'The darkest of the major Uranian moons.' },
+      { id: 'titania', name: 'Titania', distance: 3.3, radius: 0.11, period: 8.706, phase: 216, details: 'The largest moon of Uranus, marked by huge fault valleys.' },
+      { id: 'oberon', name: 'Oberon', distance: 3.9, radius: 0.1, period: 13.463, phase: 288, details: 'The outermost major moon of Uranus, old and heavily cratered.' }
+    ],
+    physical: {
+      meanRadius: 25362,
+      mass: 8.681e25,
+      rotationPeriod: -17.24,
+      axialTilt: 97.77,
+      surfaceGravity: 8.69,
+      meanTemperature: 76,
+      escapeVelocity: 21.3
+    },
+    orbit: {
+      semiMajorAxis: 19.18916464,
+      eccentricity: 0.04725744,
+      inclination: 0.77263783,
+      longitudeOfAscendingNode: 74.01692503,
+      argumentOfPerihelion: 96.93735127,
+      meanAnomalyAtEpoch: 142.28382821
+    }
   },
   {
     id: 'neptune',
@@ -101,10 +256,295 @@ export const PLANET_DATA: PlanetData[] = [
     rotationSpeed: 0.032,
     color: '#0033ff', // Deep Electric Blue
     details: 'The farthest known planet from the Sun. It is 17 times the mass of Earth.',
-    moons: 14
+    moons: 14,
+    moonCatalog: [
+      { id: 'proteus', name: 'Proteus', distance: 1.9, radius: 0.07, period: 1.122, phase: 60, details: 'One of the darkest objects in the Solar System and about as large as a body can be without becoming round.' },
+      { id: 'triton', name: 'Triton', distance: 2.8, radius: 0.13, period: 5.877, inclination: 156.9, phase: 220, color: '#aaddff', details: 'Orbits backwards, a sign it was captured from the Kuiper belt. Nitrogen geysers erupt from its frozen surface.' }
+    ],
+    physical: {
+      meanRadius: 24622,
+      mass: 1.024e26,
+      rotationPeriod: 16.11,
+      axialTilt: 28.32,
+      surfaceGravity: 11.15,
+      meanTemperature: 72,
+      escapeVelocity: 23.5
+    },
+    orbit: {
+      semiMajorAxis: 30.06992276,
+      eccentricity: 0.00859048,
+      inclination: 1.77004347,
+      longitudeOfAscendingNode: 131.78422574,
+      argumentOfPerihelion: 273.18053653,
+      meanAnomalyAtEpoch: 259.91520804
+    }
   }
 ];
 
-export const ASTEROID_COUNT = 1500;
-export const ASTEROID_BELT_RADIUS_MIN = 110;
-export const ASTEROID_BELT_RADIUS_MAX = 125;
\ No newline at end of file
+// Dwarf planets share the planets' scene scale, so Pluto crosses inside Neptune's orbit as it really does.
+// Elements are approximate osculating values near J2000.
+export const DWARF_PLANET_DATA: PlanetData[] = [
+  {
+    id: 'ceres',
+    name: 'Ceres',
+    category: 'dwarf',
+    radius: 0.5,
+    distance: 118,
+    speed: 0.6,
+    rotationSpeed: 0.025,
+    color: '#9fa8b8', // Dusty Silver
+    details: 'The largest object in the asteroid belt and the only dwarf planet in the inner Solar System. Bright salt deposits dot its craters.',
+    moons: 0,
+    physical: {
+      meanRadius: 469.7,
+      mass: 9.38e20,
+      rotationPeriod: 9.074,
+      axialTilt: 4,
+      surfaceGravity: 0.28,
+      meanTemperature: 168,
+      escapeVelocity: 0.51
+    },
+    orbit: {
+      semiMajorAxis: 2.7675,
+      eccentricity: 0.0758,
+      inclination: 10.593,
+      longitudeOfAscendingNode: 80.33,
+      argumentOfPerihelion: 73.51,
+      meanAnomalyAtEpoch: 6.0
+    }
+  },
+  {
+    id: 'pluto',
+    name: 'Pluto',
+    category: 'dwarf',
+    radius: 0.8,
+    distance: 330,
+    speed: 0.16,
+    rotationSpeed: 0.004,
+    color: '#ffc9a0', // Pale Peach
+    details: 'Once the ninth planet, now the best-known Kuiper belt object. Its heart-shaped nitrogen glacier was revealed by New Horizons in 2015.',
+    moons: 5,
+    moonCatalog: [
+      { id: 'charon', name: 'Charon', distance: 3, radius: 0.51, period: 6.387, phase: 0, color: '#c8c0b8', details: 'Half the size of Pluto; the two are tidally locked to each other and orbit a point in the space between them.' }
+    ],
+    physical: {
+      meanRadius: 1188.3,
+      mass: 1.303e22,
+      rotationPeriod: -153.29,
+      axialTilt: 122.53,
+      surfaceGravity: 0.62,
+      meanTemperature: 44,
+      escapeVelocity: 1.21
+    },
+    orbit: {
+      semiMajorAxis: 39.48211675,
+      eccentricity: 0.2488273,
+      inclination: 17.14001206,
+      longitudeOfAscendingNode: 110.30393684,
+      argumentOfPerihelion: 113.76497945,
+      meanAnomalyAtEpoch: 14.86012204
+    }
+  },
+  {
+    id: 'haumea',
+    name: 'Haumea',
+    category: 'dwarf',
+    radius: 0.6,
+    distance: 345,
+    speed: 0.15,
+    rotationSpeed: 0.06,
+    color: '#e8f4ff', // Ice White
+    details: 'Spins once every four hours, fast enough to stretch it into an egg shape. It has a ring and two small moons.',
+    moons: 2,
+    physical: {
+      meanRadius: 780,
+      mass: 4.006e21,
+      rotationPeriod: 3.915,
+      surfaceGravity: 0.4,
+      meanTemperature: 50,
+      escapeVelocity: 0.91
+    },
+    orbit: {
+      semiMajorAxis: 43.13,
+      eccentricity: 0.195,
+      inclination: 28.2,
+      longitudeOfAscendingNode: 122.2,
+      argumentOfPerihelion: 239.0,
+      meanAnomalyAtEpoch: 196.0
+    }
+  },
+  {
+    id: 'makemake',
+    name: 'Makemake',
+    category: 'dwarf',
+    radius: 0.65,
+    distance: 355,
+    speed: 0.15,
+    rotationSpeed: 0.009,
+    color: '#ff8866', // Rust Red
+    details: 'A reddish world covered in frozen methane, discovered shortly after Easter 2005.',
+    moons: 1,
+    physical: {
+      meanRadius: 715,
+      mass: 3.1e21,
+      rotationPeriod: 22.83,
+      surfaceGravity: 0.5,
+      meanTemperature: 40,
+      escapeVelocity: 0.91
+    },
+    orbit: {
+      semiMajorAxis: 45.43,
+      eccentricity: 0.161,
+      inclination: 29.0,
+      longitudeOfAscendingNode: 79.6,
+      argumentOfPerihelion: 294.8,
+      meanAnomalyAtEpoch: 143.0
+    }
+  },
+  {
+    id: 'eris',
+    name: 'Eris',
+    category: 'dwarf',
+    radius: 0.8,
+    distance: 420,
+    speed: 0.12,
+    rotationSpeed: 0.004,
+    color: '#d8e0ff', // Frost Lavender
+    details: 'About the same size as Pluto but more massive. Its discovery in 2005 led to the definition of "dwarf planet".',
+    moons: 1,
+    moonCatalog: [
+      { id: 'dysnomia', name: 'Dysnomia', distance: 3, radius: 0.25, period: 15.786, phase: 120, details: 'Eris\'s only known moon, whose orbit revealed the mass of its parent.' }
+    ],
+    physical: {
+      meanRadius: 1163,
+      mass: 1.66e22,
+      rotationPeriod: 378.9,
+      surfaceGravity: 0.82,
+      meanTemperature: 42,
+      escapeVelocity: 1.38
+    },
+    orbit: {
+      semiMajorAxis: 67.86,
+      eccentricity: 0.4361,
+      inclination: 44.04,
+      longitudeOfAscendingNode: 35.95,
+      argumentOfPerihelion: 151.64,
+      meanAnomalyAtEpoch: 193.0
+    }
+  }
+];
+
+// Periodic comets. Their orbits are drawn radially compressed (see COMET_RADIAL_EXPONENT),
+// with `distance` still the scene-space semi-major axis.
+export const COMET_DATA: PlanetData[] = [
+  {
+    id: 'halley',
+    name: "Halley's Comet",
+    category: 'comet',
+    radius: 0.5,
+    distance: 235,
+    speed: 0.24,
+    rotationSpeed: 0.02,
+    color: '#7fffd4', // Aquamarine
+    details: 'The most famous periodic comet, returning every 75-76 years. Last seen in 1986; next perihelion in 2061. It orbits backwards relative to the planets.',
+    moons: 0,
+    tailLength: 60,
+    physical: {
+      meanRadius: 5.5,
+      mass: 2.2e14,
+      rotationPeriod: 52.8,
+      escapeVelocity: 0.002
+    },
+    orbit: {
+      semiMajorAxis: 17.834,
+      eccentricity: 0.96714,
+      inclination: 162.26,
+      longitudeOfAscendingNode: 58.42,
+      argumentOfPerihelion: 111.33,
+      meanAnomalyAtEpoch: 66.4
+    }
+  },
+  {
+    id: 'encke',
+    name: 'Comet Encke',
+    category: 'comet',
+    radius: 0.4,
+    distance: 103,
+    speed: 0.67,
+    rotationSpeed: 0.02,
+    color: '#a0c8ff', // Ice Blue
+    details: 'The shortest-period major comet, swinging inside Mercury\'s orbit every 3.3 years. Source of the Taurid meteor showers.',
+    moons: 0,
+    tailLength: 35,
+    physical: {
+      meanRadius: 2.4,
+      rotationPeriod: 11
+    },
+    orbit: {
+      semiMajorAxis: 2.215,
+      eccentricity: 0.8483,
+      inclination: 11.78,
+      longitudeOfAscendingNode: 334.57,
+      argumentOfPerihelion: 186.54,
+      meanAnomalyAtEpoch: 285.0
+    }
+  },
+  {
+    id: 'churyumov-gerasimenko',
+    name: '67P/Churyumov-Gerasimenko',
+    category: 'comet',
+    radius: 0.4,
+    distance: 123,
+    speed: 0.54,
+    rotationSpeed: 0.03,
+    color: '#c0ffee', // Mint
+    details: 'The rubber-duck-shaped comet orbited by ESA\'s Rosetta, whose Philae lander touched down on it in 2014.',
+    moons: 0,
+    tailLength: 30,
+    physical: {
+      meanRadius: 2.0,
+      mass: 1.0e13,
+      rotationPeriod: 12.4,
+      escapeVelocity: 0.001
+    },
+    orbit: {
+      semiMajorAxis: 3.4628,
+      eccentricity: 0.641,
+      inclination: 7.04,
+      longitudeOfAscendingNode: 50.14,
+      argumentOfPerihelion: 12.78,
+      meanAnomalyAtEpoch: 213.0
+    }
+  }
+];
+
+export const ASTEROID_BELT: BeltData = {
+  id: 'asteroid-belt',
+  name: 'Asteroid Belt',
+  count: 1500,
+  innerRadius: 110,
+  outerRadius: 125,
+  thickness: 4,
+  rotationSpeed: 0.05,
+  color: '#555555'
+};
+
+// Icy bodies beyond Neptune, roughly 30-50 AU
+export const KUIPER_BELT: BeltData = {
+  id: 'kuiper-belt',
+  name: 'Kuiper Belt',
+  count: 3000,
+  innerRadius: 300,
+  outerRadius: 420,
+  thickness: 40,
+  rotationSpeed: 0.01,
+  color: '#4a6a99'
+};
+
+export const SOLAR_SYSTEM: SystemDefinition = {
+  id: 'solar-system',
+  name: 'Solar System',
+  star: SUN_DATA,
+  planets: [...PLANET_DATA, ...DWARF_PLANET_DATA, ...COMET_DATA],
+  belts: [ASTEROID_BELT, KUIPER_BELT]
+};
@@ -0,0 +1,11 @@
+import { useEffect, useRef } from 'react';
+import { CommandRegistry, CommandSource } from '../utils/commands';
+
+// Registers palette commands for as long as the calling component is mounted.
+// The source is read through a ref, so it always sees the latest props.
+export const useCommandSource = (registry: CommandRegistry, source: CommandSource) => {
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  useEffect(() => registry.register(query => sourceRef.current(query)), [registry]);
+};
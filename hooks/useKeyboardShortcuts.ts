@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from '../types';
+import { actionForKey, focusIndexForKey, focusKeyBodies, isTypingTarget } from '../utils/keymap';
+
+const SPEED_STEP = 0.5;
+const MAX_SPEED = 5; // Matches the Time Scale slider
+
+// Shortcuts that work in every control mode: number keys to focus bodies, time
+// scale, the interface toggles and the command palette. Flight keys are handled
+// by the camera controller.
+export const useKeyboardShortcuts = (appState: AppState) => {
+  const appStateRef = useRef(appState);
+  appStateRef.current = appState;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const state = appStateRef.current;
+
+      // Ctrl/Cmd+K toggles the command palette, even from its own search field
+      if (e.code === 'KeyK' && (e.ctrlKey || e.metaKey) && !e.altKey) {
+        e.preventDefault();
+        state.setShowCommandPalette(!state.showCommandPalette);
+        return;
+      }
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.code === 'Escape' && state.showShortcutHelp) {
+        state.setShowShortcutHelp(false);
+        return;
+      }
+
+      const focusIndex = focusIndexForKey(e.code);
+      if (focusIndex !== null) {
+        const body = focusKeyBodies(state.bodies)[focusIndex];
+        if (body) state.setFocusedBody(body.id);
+        return;
+      }
+
+      const changeSpeed = (direction: 1 | -1) => {
+        const speed = Math.round((state.simulationSpeed + direction * SPEED_STEP) * 10) / 10;
+        state.setSimulationSpeed(Math.max(-MAX_SPEED, Math.min(MAX_SPEED, speed)));
+      };
+
+      switch (actionForKey(state.keymap, e.code)) {
+        case 'speedUp': changeSpeed(1); break;
+        case 'speedDown': changeSpeed(-1); break;
+        case 'toggleUI':
+          if (!e.repeat) state.setShowUI(!state.showUI);
+          break;
+        case 'toggleSettings':
+          if (e.repeat) break;
+          state.setShowSettings(!state.showSettings);
+          if (!state.showSettings) state.setShowUI(true); // The panel is part of the interface
+          break;
+        case 'showHelp':
+          if (!e.repeat) state.setShowShortcutHelp(!state.showShortcutHelp);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
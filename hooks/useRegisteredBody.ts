@@ -0,0 +1,18 @@
+import { RefObject, useEffect } from 'react';
+import * as THREE from 'three';
+import { BodyRegistry } from '../utils/bodyRegistry';
+
+// Registers a body's Object3D for as long as the component is mounted.
+// The owner still calls registry.sync(id) in its frame loop after moving it.
+export const useRegisteredBody = (
+  registry: BodyRegistry,
+  id: string,
+  ref: RefObject<THREE.Object3D | null>,
+  radius: number,
+  parentId?: string
+) => {
+  useEffect(() => {
+    if (!ref.current) return;
+    return registry.register({ id, object: ref.current, radius, parentId });
+  }, [registry, id, ref, radius, parentId]);
+};
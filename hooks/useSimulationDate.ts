@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { SimulationClock } from '../utils/simulationClock';
+
+// Re-renders with the clock's Julian date, throttled so the overlay doesn't
+// re-render on every animation frame while time is running.
+export const useSimulationDate = (clock: SimulationClock, throttleMs = 100): number => {
+  const [julianDate, setJulianDate] = useState(clock.julianDate);
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = clock.subscribe(() => {
+      if (timeout) return;
+      timeout = setTimeout(() => {
+        timeout = null;
+        setJulianDate(clock.julianDate);
+      }, throttleMs);
+    });
+    setJulianDate(clock.julianDate);
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [clock, throttleMs]);
+
+  return julianDate;
+};
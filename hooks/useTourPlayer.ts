@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ControlMode, SystemDefinition } from '../types';
+import {
+  Tour,
+  TourCaption,
+  TourPlayback,
+  buildGrandTour,
+  fetchTour,
+  tourChapters,
+  tourDuration,
+  tourStateAt
+} from '../utils/tours';
+
+interface TourActions {
+  setFocusedBody: (id: string | null) => void;
+  setSimulationSpeed: (speed: number) => void;
+}
+
+// Tour selection and playback state. The steps themselves are played by the
+// camera controller; this keeps track of where it is and handles navigation.
+// ?tour=<name or URL> replaces the built-in Grand Tour of the active system.
+export const useTourPlayer = (activeSystem: SystemDefinition, controlMode: ControlMode, actions: TourActions) => {
+  const grandTour = useMemo(() => buildGrandTour(activeSystem), [activeSystem]);
+  const [customTour, setCustomTour] = useState<Tour | null>(null);
+  const tour = customTour ?? grandTour;
+  const [tourPlayback, setTourPlayback] = useState<TourPlayback>({ stepIndex: 0, playing: true, generation: 0 });
+  const [tourCaption, setTourCaption] = useState<TourCaption | null>(null);
+  const [highlightedBody, setHighlightedBody] = useState<string | null>(null);
+  const isAuto = controlMode === ControlMode.AUTO;
+
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('tour');
+    if (!requested) return;
+    fetchTour(requested)
+      .then(setCustomTour)
+      .catch(error => console.error('Could not load tour, playing the Grand Tour instead:', error));
+  }, []);
+
+  // Restores what the earlier steps set up, then (re)starts the step
+  const goToTourStep = (index: number) => {
+    const state = tourStateAt(tour, index);
+    setTourCaption(state.caption ?? null);
+    setHighlightedBody(state.highlight ?? null);
+    if (state.focus !== undefined) actions.setFocusedBody(state.focus);
+    if (state.speed !== undefined) actions.setSimulationSpeed(state.speed);
+    setTourPlayback(p => ({ ...p, stepIndex: index, generation: p.generation + 1 }));
+  };
+
+  // A new tour starts from the top; entering AUTO resumes where the tour was left
+  useEffect(() => {
+    if (isAuto) goToTourStep(0);
+  }, [tour]);
+
+  useEffect(() => {
+    if (isAuto) goToTourStep(tourPlayback.stepIndex < tour.steps.length ? tourPlayback.stepIndex : 0);
+  }, [isAuto]);
+
+  // Called by the player when a step finishes
+  const advanceTour = () => {
+    setTourPlayback(p => {
+      if (p.stepIndex + 1 < tour.steps.length) return { ...p, stepIndex: p.stepIndex + 1, generation: p.generation + 1 };
+      // A tour of instant steps would restart endlessly without yielding, so it stops instead
+      if (tour.loop !== false && tourDuration(tour) > 0) return { ...p, stepIndex: 0, generation: p.generation + 1 };
+      return { ...p, stepIndex: tour.steps.length, playing: false };
+    });
+  };
+
+  const setTourPlaying = (playing: boolean) => {
+    // Playing a finished tour starts it again
+    if (playing && tourPlayback.stepIndex >= tour.steps.length) goToTourStep(0);
+    setTourPlayback(p => ({ ...p, playing }));
+  };
+
+  // Next and previous move between chapters (see tourChapters)
+  const nextTourChapter = () => {
+    const next = tourChapters(tour).find(start => start > tourPlayback.stepIndex);
+    goToTourStep(next ?? 0);
+  };
+
+  const previousTourChapter = () => {
+    const started = tourChapters(tour).filter(start => start <= tourPlayback.stepIndex);
+    goToTourStep(started.length > 1 ? started[started.length - 2] : 0);
+  };
+
+  return {
+    tour,
+    tourPlayback,
+    // Captions and highlights belong to the tour, so they only show while it is running
+    tourCaption: isAuto ? tourCaption : null,
+    setTourCaption,
+    highlightedBody: isAuto ? highlightedBody : null,
+    setHighlightedBody,
+    advanceTour,
+    setTourPlaying,
+    nextTourChapter,
+    previousTourChapter
+  };
+};
@@ -0,0 +1,100 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { AppState, CameraViewState, ControlMode } from '../types';
+import { ViewLinkState, encodeViewLink, parseViewLink } from '../utils/viewLink';
+
+const CAMERA_SYNC_MS = 1000;
+
+export const currentViewLinkState = (appState: AppState, cameraView: CameraViewState): ViewLinkState => ({
+  focusedBody: appState.focusedBody,
+  controlMode: appState.controlMode,
+  simulationSpeed: appState.simulationSpeed,
+  isPaused: appState.isPaused,
+  particleDensity: appState.particleDensity,
+  bloomIntensity: appState.bloomIntensity,
+  scaleMode: appState.scaleMode,
+  julianDate: appState.simulationClock.julianDate,
+  camera: {
+    position: cameraView.current.position.toArray() as [number, number, number],
+    target: cameraView.current.target.toArray() as [number, number, number]
+  }
+});
+
+export const viewLinkUrl = (appState: AppState, cameraView: CameraViewState): string => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${encodeViewLink(currentViewLinkState(appState, cameraView))}`;
+};
+
+// Keeps the URL hash in step with the view. The hash is restored on load and
+// on back/forward; each focus change adds a history entry while everything
+// else (including the ever-changing camera and time) replaces the current one.
+// `onApply` hears about every link applied, before its state has rendered.
+export const useViewLink = (
+  appState: AppState,
+  cameraViewRef: MutableRefObject<CameraViewState>,
+  onApply?: (link: Partial<ViewLinkState>) => void
+) => {
+  const appStateRef = useRef(appState);
+  appStateRef.current = appState;
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+  // Writing waits until the restored state has rendered, so defaults never overwrite an incoming link
+  const [restored, setRestored] = useState(false);
+
+  const sync = (allowPush: boolean) => {
+    const hash = encodeViewLink(currentViewLinkState(appStateRef.current, cameraViewRef.current));
+    if (hash === window.location.hash) return;
+    const linkedFocus = parseViewLink(window.location.hash).focusedBody ?? null;
+    if (allowPush && linkedFocus !== appStateRef.current.focusedBody) {
+      window.history.pushState(null, '', hash);
+    } else {
+      window.history.replaceState(null, '', hash);
+    }
+  };
+
+  useEffect(() => {
+    const apply = (link: ReturnType<typeof parseViewLink>) => {
+      const app = appStateRef.current;
+      app.setFocusedBody(link.focusedBody ?? null);
+      if (link.controlMode) app.setControlMode(link.controlMode);
+      if (link.simulationSpeed !== undefined) app.setSimulationSpeed(link.simulationSpeed);
+      if (link.isPaused !== undefined) app.setIsPaused(link.isPaused);
+      if (link.particleDensity) app.setParticleDensity(link.particleDensity);
+      if (link.bloomIntensity !== undefined) app.setBloomIntensity(link.bloomIntensity);
+      if (link.scaleMode) app.setScaleMode(link.scaleMode);
+      if (link.julianDate !== undefined) app.simulationClock.setJulianDate(link.julianDate);
+      if (link.camera) {
+        cameraViewRef.current.requested = {
+          position: new THREE.Vector3(...link.camera.position),
+          target: new THREE.Vector3(...link.camera.target)
+        };
+      }
+      onApplyRef.current?.(link);
+    };
+
+    if (window.location.hash.length > 1) apply(parseViewLink(window.location.hash));
+    setRestored(true);
+
+    const handlePopState = () => apply(parseViewLink(window.location.hash));
+    const interval = setInterval(() => sync(false), CAMERA_SYNC_MS);
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Tour focus changes are not navigation, and a looping tour would flood the history
+    if (restored) sync(appState.controlMode !== ControlMode.AUTO);
+  }, [
+    restored,
+    appState.focusedBody,
+    appState.controlMode,
+    appState.simulationSpeed,
+    appState.isPaused,
+    appState.particleDensity,
+    appState.bloomIntensity,
+    appState.scaleMode
+  ]);
+};
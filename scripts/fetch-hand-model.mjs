@@ -0,0 +1,33 @@
+// Downloads the MediaPipe hand landmarker model into public/ so the Vite build
+// can serve it alongside the WASM runtime. `npm run build` runs this first and
+// stops when the model can't be had, so no build ships without it; the built
+// app then needs no network for hand tracking.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const target = path.join(root, 'public', 'mediapipe', 'hand_landmarker.task');
+
+if (existsSync(target) && !process.argv.includes('--force')) {
+  console.log(`Hand model already present at ${path.relative(root, target)} (use --force to re-download).`);
+  process.exit(0);
+}
+
+let response;
+try {
+  response = await fetch(MODEL_URL);
+} catch (error) {
+  console.error(`Failed to download hand model from ${MODEL_URL}: ${error.message}`);
+  console.error(`Copy hand_landmarker.task into ${path.relative(root, path.dirname(target))}/ by hand to build offline.`);
+  process.exit(1);
+}
+if (!response.ok) {
+  console.error(`Failed to download hand model: HTTP ${response.status}`);
+  process.exit(1);
+}
+
+mkdirSync(path.dirname(target), { recursive: true });
+writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved hand model to ${path.relative(root, target)}.`);
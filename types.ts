@@ -1,41 +1,216 @@
 import { Vector3 } from 'three';
+import { SimulationClock } from './utils/simulationClock';
+import { BodyRegistry } from './utils/bodyRegistry';
+import { GestureCalibration } from './utils/handPose';
+import { ScaleMode, ScaleTransition } from './utils/scaleModes';
+import { UnitSystem } from './utils/units';
+import { Tour, TourCaption, TourPlayback } from './utils/tours';
+import { CameraPath } from './utils/cameraPaths';
+import { CaptureOptions, CaptureProgress } from './utils/capture';
+import { Keymap } from './utils/keymap';
+import { GamepadMapping } from './utils/gamepad';
+import { LayerSettings } from './utils/layers';
+import { Measurement } from './utils/measurements';
+import { CommandRegistry } from './utils/commands';
+
+// Classical Keplerian elements, referenced to the ecliptic at epoch J2000
+export interface OrbitalElements {
+  semiMajorAxis: number; // AU
+  eccentricity: number; // 0 = circle, < 1 = ellipse
+  inclination: number; // Degrees from the ecliptic plane
+  longitudeOfAscendingNode: number; // Degrees (Ω)
+  argumentOfPerihelion: number; // Degrees (ω)
+  meanAnomalyAtEpoch: number; // Degrees (M0) at J2000
+  period?: number; // Days; derived from the semi-major axis (Kepler's third law) when omitted
+}
+
+// Measured properties, kept apart from the render parameters. Orbital size and
+// period come from `orbit`. Optional fields are simply not shown when unknown.
+export interface PhysicalData {
+  meanRadius: number; // km
+  mass?: number; // kg
+  rotationPeriod?: number; // Hours (sidereal); negative spins retrograde
+  axialTilt?: number; // Degrees
+  surfaceGravity?: number; // m/s² at the equator
+  meanTemperature?: number; // Kelvin
+  escapeVelocity?: number; // km/s
+}
+
+export interface MoonData {
+  id: string; // Unique across the whole system
+  name: string;
+  distance: number; // Visual orbit radius in parent radii
+  radius: number; // Visual size relative to the parent's radius
+  period: number; // Orbital period in days
+  inclination?: number; // Degrees to the parent's equator; > 90 orbits retrograde
+  phase?: number; // Degrees along the orbit at J2000
+  color?: string; // Defaults to the parent's color
+  details: string;
+}
+
+// What kind of body an entry is; drives rendering and the quick-select filter
+export type BodyCategory = 'star' | 'planet' | 'dwarf' | 'comet';
 
 export interface PlanetData {
   id: string;
   name: string;
+  category?: BodyCategory; // Defaults to 'planet'
   radius: number; // Visual size relative to Earth
-  distance: number; // Distance from Sun
-  speed: number; // Orbital speed
+  distance: number; // Scene-space semi-major axis (0 = stationary at origin)
+  speed: number; // Relative orbital speed for animation, not a physical value
   rotationSpeed: number; // Self-rotation speed
   color: string; // Neon hex color
   details: string; // Description
-  moons?: number;
+  moons?: number; // Total known moons
+  moonCatalog?: MoonData[]; // Named moons rendered individually; the rest form a "minor moons" cloud
   hasRings?: boolean;
+  orbit?: OrbitalElements; // Omitted for bodies fixed at the origin
+  tailLength?: number; // Comets: scene length of the tail at perihelion
+  physical?: PhysicalData; // Scale modes estimate a radius from `radius` when omitted
+}
+
+export interface StarData {
+  id: string;
+  name: string;
+  radius: number; // Visual size
+  rotationSpeed: number;
+  color: string; // Neon hex color, also tints the system's light
+  details: string;
+  physical?: PhysicalData;
+}
+
+export interface BeltData {
+  id: string;
+  name: string;
+  count: number; // Particles at full quality
+  innerRadius: number; // Scene units
+  outerRadius: number;
+  thickness: number; // Vertical spread, scene units
+  rotationSpeed: number; // Radians per simulated second at 1x
+  color: string;
+}
+
+// A complete planetary system, as loaded from JSON (see public/systems/system.schema.json)
+export interface SystemDefinition {
+  id: string;
+  name: string;
+  star: StarData;
+  planets: PlanetData[]; // Everything orbiting the star: planets, dwarf planets and comets
+  belts: BeltData[];
 }
 
+export type ParticleDensity = 'LOW' | 'MEDIUM' | 'HIGH';
+
 export enum ControlMode {
   MOUSE = 'MOUSE',
   KEYBOARD = 'KEYBOARD',
   AUTO = 'AUTO',
   HAND = 'HAND',
+  GAMEPAD = 'GAMEPAD',
 }
 
 export interface AppState {
+  activeSystem: SystemDefinition;
+  setActiveSystem: (system: SystemDefinition) => void;
+  bodies: PlanetData[]; // The active system's star followed by its planets
+  systemLoadError: string | null;
+  setSystemLoadError: (error: string | null) => void;
+  loadSystemFile: (file: File) => void;
   controlMode: ControlMode;
   setControlMode: (mode: ControlMode) => void;
   focusedBody: string | null;
   setFocusedBody: (name: string | null) => void;
-  simulationSpeed: number;
+  handHoveredBody: string | null; // Body under the hand-tracking pointer
+  setHandHoveredBody: (id: string | null) => void;
+  simulationSpeed: number; // Time scale; negative runs the clock backwards
   setSimulationSpeed: (speed: number) => void;
-  particleDensity: 'LOW' | 'MEDIUM' | 'HIGH';
-  setParticleDensity: (density: 'LOW' | 'MEDIUM' | 'HIGH') => void;
+  isPaused: boolean;
+  setIsPaused: (paused: boolean) => void;
+  simulationClock: SimulationClock;
+  bodyRegistry: BodyRegistry;
+  scaleMode: ScaleMode;
+  setScaleMode: (mode: ScaleMode) => void;
+  scaleTransition: ScaleTransition; // Animated blend between scale modes, read every frame
+  particleDensity: ParticleDensity;
+  setParticleDensity: (density: ParticleDensity) => void;
   bloomIntensity: number;
   setBloomIntensity: (intensity: number) => void;
+  unitSystem: UnitSystem; // Metric or imperial in the info panels
+  setUnitSystem: (units: UnitSystem) => void;
+  layers: LayerSettings; // Trails, predicted paths and reference overlays
+  setLayers: (layers: LayerSettings) => void;
+  isMeasuring: boolean; // The measurement panel is open
+  setIsMeasuring: (measuring: boolean) => void;
+  measurement: Measurement; // The pair picked in the measurement panel
+  setMeasurement: (measurement: Measurement) => void;
+  pinnedMeasurements: Measurement[]; // Stay drawn after the panel closes
+  setPinnedMeasurements: (measurements: Measurement[]) => void;
+  showEventFinder: boolean; // The sky events panel
+  setShowEventFinder: (show: boolean) => void;
   showUI: boolean;
   setShowUI: (show: boolean) => void;
+  showSettings: boolean; // The Configuration panel
+  setShowSettings: (show: boolean) => void;
+  showShortcutHelp: boolean; // Shortcut list and key binding editor
+  setShowShortcutHelp: (show: boolean) => void;
+  keymap: Keymap;
+  setKeymap: (keymap: Keymap) => void;
+  commandRegistry: CommandRegistry; // Features register their command palette entries here
+  showCommandPalette: boolean;
+  setShowCommandPalette: (show: boolean) => void;
+  copyViewLink: () => Promise<void>; // Copies a URL that reopens the current view
+  resetPreferences: () => void; // Restores every saved setting to its default
+  tour: Tour; // Played in AUTO mode
+  tourPlayback: TourPlayback;
+  tourCaption: TourCaption | null;
+  setTourCaption: (caption: TourCaption | null) => void;
+  highlightedBody: string | null; // Ringed by the tour
+  setHighlightedBody: (id: string | null) => void;
+  advanceTour: () => void;
+  setTourPlaying: (playing: boolean) => void;
+  nextTourChapter: () => void;
+  previousTourChapter: () => void;
+  cameraPath: CameraPath; // Recorded camera move, edited in the path editor
+  setCameraPath: (path: CameraPath) => void;
+  isPlayingCameraPath: boolean; // Overrides every control mode while true
+  setIsPlayingCameraPath: (playing: boolean) => void;
+  isEditingCameraPath: boolean;
+  setIsEditingCameraPath: (editing: boolean) => void;
+  isCapturing: boolean; // The canvas is sized for and driven by a capture
+  captureScene: (options: CaptureOptions, onProgress: (progress: CaptureProgress) => void, signal: AbortSignal) => Promise<void>;
+  gestureCalibration: GestureCalibration;
+  setGestureCalibration: (calibration: GestureCalibration) => void;
+  isCalibrating: boolean;
+  setIsCalibrating: (calibrating: boolean) => void;
+  gamepadMapping: GamepadMapping;
+  setGamepadMapping: (mapping: GamepadMapping) => void;
+  isMappingGamepad: boolean; // The controller mapping panel is open
+  setIsMappingGamepad: (mapping: boolean) => void;
+}
+
+export type HandGesture = {
+  type: 'NONE' | 'ROTATE' | 'ZOOM' | 'FOCUS' | 'EXIT_FOCUS';
+  value?: any; // Delta for rotate/zoom, position (+ pinch flag) for focus
+};
+
+// Written by the camera controller each frame, read by the DOM hand cursor
+export interface HandPointerState {
+  active: boolean;
+  x: number; // Normalized screen coordinates, origin top-left
+  y: number;
+  hoveredBody: string | null;
+  dwellProgress: number; // 0..1 towards a dwell selection
+  pinching: boolean;
 }
 
 export type CameraTarget = {
   position: Vector3;
   target: Vector3;
+}
+
+// Shared between App and the camera controller: the controller publishes the
+// live view every frame and applies `requested` (e.g. from a link) on its next one
+export interface CameraViewState {
+  current: CameraTarget;
+  requested: CameraTarget | null;
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+
+// Single source of truth for where every rendered body actually is.
+// Bodies register their live Object3D on mount and sync their world position
+// each frame after moving; camera follow, picking and overlays read from here
+// instead of re-deriving positions from orbit math.
+
+export interface RegisteredBody {
+  id: string;
+  object: THREE.Object3D;
+  radius: number; // Scene-space radius used for picking and framing
+  parentId?: string; // Set for moons
+  worldPosition: THREE.Vector3; // Refreshed by sync() every frame
+}
+
+export interface BodyRegistry {
+  register: (body: Omit<RegisteredBody, 'worldPosition'>) => () => void;
+  sync: (id: string) => void;
+  resize: (id: string, radius: number) => void; // Bodies change size while scale modes morph
+  get: (id: string) => RegisteredBody | undefined;
+  getAll: () => RegisteredBody[];
+  getWorldPosition: (id: string, target?: THREE.Vector3) => THREE.Vector3 | null;
+  // Nearest body whose bounding sphere the ray passes through
+  pick: (ray: THREE.Ray) => RegisteredBody | null;
+}
+
+export const createBodyRegistry = (): BodyRegistry => {
+  const bodies = new Map<string, RegisteredBody>();
+  const sphere = new THREE.Sphere();
+  const hit = new THREE.Vector3();
+
+  const registry: BodyRegistry = {
+    register: (body) => {
+      const entry: RegisteredBody = { ...body, worldPosition: new THREE.Vector3() };
+      body.object.getWorldPosition(entry.worldPosition);
+      bodies.set(body.id, entry);
+      return () => {
+        // Only remove our own entry; a remount may already have replaced it
+        if (bodies.get(body.id) === entry) bodies.delete(body.id);
+      };
+    },
+    sync: (id) => {
+      const entry = bodies.get(id);
+      if (!entry) return;
+      entry.object.updateWorldMatrix(true, false);
+      entry.worldPosition.setFromMatrixPosition(entry.object.matrixWorld);
+    },
+    resize: (id, radius) => {
+      const entry = bodies.get(id);
+      if (entry) entry.radius = radius;
+    },
+    get: (id) => bodies.get(id),
+    getAll: () => Array.from(bodies.values()),
+    getWorldPosition: (id, target = new THREE.Vector3()) => {
+      const entry = bodies.get(id);
+      return entry ? target.copy(entry.worldPosition) : null;
+    },
+    pick: (ray) => {
+      let closest: RegisteredBody | null = null;
+      let closestDistance = Infinity;
+      bodies.forEach(entry => {
+        sphere.set(entry.worldPosition, entry.radius);
+        if (!ray.intersectSphere(sphere, hit)) return;
+        const distance = hit.distanceTo(ray.origin);
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          closest = entry;
+        }
+      });
+      return closest;
+    }
+  };
+
+  return registry;
+};
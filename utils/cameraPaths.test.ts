@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { CAMERA_PATH_VERSION, CameraPathValidationError, parseCameraPath } from './cameraPaths';
+
+const issuesOf = (json: string): string[] => {
+  try {
+    parseCameraPath(json);
+  } catch (error) {
+    if (error instanceof CameraPathValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+const keyframe = { position: [0, 10, 20], target: [0, 0, 0], duration: 2, ease: 'sine.inOut' };
+
+describe('parseCameraPath', () => {
+  it('reads a valid path', () => {
+    const path = parseCameraPath(JSON.stringify({ version: CAMERA_PATH_VERSION, name: 'Flyby', keyframes: [keyframe] }));
+    expect(path.name).toBe('Flyby');
+    expect(path.keyframes).toHaveLength(1);
+    expect(path.keyframes[0]).toMatchObject(keyframe);
+  });
+
+  it('lists every invalid field', () => {
+    const issues = issuesOf(JSON.stringify({
+      version: CAMERA_PATH_VERSION,
+      keyframes: [{ ...keyframe, position: [0, 'up', 0], duration: -1 }, { ...keyframe, ease: 'bounce' }, 'shot']
+    }));
+    expect(issues).toHaveLength(4);
+    expect(issues.join('\n')).toMatch(/keyframes\[0\]\.position\[1\]/);
+    expect(issues.join('\n')).toMatch(/keyframes\[0\]\.duration/);
+    expect(issues.join('\n')).toMatch(/keyframes\[1\]\.ease/);
+    expect(issues.join('\n')).toMatch(/keyframes\[2\]/);
+  });
+
+  it('rejects other versions and malformed JSON', () => {
+    expect(issuesOf(JSON.stringify({ version: 99, keyframes: [] }))[0]).toMatch(/version/);
+    expect(issuesOf('{')[0]).toMatch(/not valid JSON/);
+  });
+});
@@ -0,0 +1,203 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { Vec3Tuple } from './viewLink';
+import { Validator, createValidator } from './systemLoader';
+import { downloadBlob } from './capture';
+
+// Recorded camera moves: keyframes of camera position and look target, joined
+// by Catmull-Rom splines. A keyframe's `duration` and `ease` describe the
+// segment that arrives at it, so the first keyframe only marks the start.
+
+export const CAMERA_PATH_VERSION = 1;
+export const DEFAULT_SEGMENT_DURATION = 3;
+
+export const CAMERA_PATH_EASES = ['none', 'sine.inOut', 'power2.in', 'power2.out', 'power2.inOut'] as const;
+export type CameraPathEase = typeof CAMERA_PATH_EASES[number];
+
+export const CAMERA_PATH_EASE_LABELS: Record<CameraPathEase, string> = {
+  'none': 'Linear',
+  'sine.inOut': 'Smooth',
+  'power2.in': 'Ease in',
+  'power2.out': 'Ease out',
+  'power2.inOut': 'Ease in-out',
+};
+
+export interface CameraKeyframe {
+  id: string; // Only for editing; not saved
+  position: Vec3Tuple;
+  target: Vec3Tuple;
+  duration: number; // Seconds from the previous keyframe
+  ease: CameraPathEase;
+}
+
+export interface CameraPath {
+  name: string;
+  keyframes: CameraKeyframe[];
+}
+
+export const EMPTY_CAMERA_PATH: CameraPath = { name: 'Camera Path', keyframes: [] };
+
+let keyframeCount = 0;
+
+export const createKeyframe = (
+  position: Vec3Tuple,
+  target: Vec3Tuple,
+  duration = DEFAULT_SEGMENT_DURATION,
+  ease: CameraPathEase = 'sine.inOut'
+): CameraKeyframe => ({ id: `keyframe-${++keyframeCount}`, position, target, duration, ease });
+
+// Seconds into the path at which each keyframe is reached
+export const keyframeTimes = (path: CameraPath): number[] => {
+  let time = 0;
+  return path.keyframes.map((keyframe, i) => (time += i === 0 ? 0 : keyframe.duration));
+};
+
+export const cameraPathDuration = (path: CameraPath): number => {
+  const times = keyframeTimes(path);
+  return times.length > 0 ? times[times.length - 1] : 0;
+};
+
+// --- Editing (each returns a new path) ---
+
+export const addKeyframe = (path: CameraPath, keyframe: CameraKeyframe): CameraPath => ({
+  ...path,
+  keyframes: [...path.keyframes, keyframe]
+});
+
+export const updateKeyframe = (path: CameraPath, id: string, changes: Partial<Omit<CameraKeyframe, 'id'>>): CameraPath => ({
+  ...path,
+  keyframes: path.keyframes.map(k => (k.id === id ? { ...k, ...changes } : k))
+});
+
+export const removeKeyframe = (path: CameraPath, id: string): CameraPath => ({
+  ...path,
+  keyframes: path.keyframes.filter(k => k.id !== id)
+});
+
+// Moves a keyframe `offset` places earlier (negative) or later (positive)
+export const moveKeyframe = (path: CameraPath, id: string, offset: number): CameraPath => {
+  const from = path.keyframes.findIndex(k => k.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= path.keyframes.length) return path;
+  const keyframes = [...path.keyframes];
+  const [keyframe] = keyframes.splice(from, 1);
+  keyframes.splice(to, 0, keyframe);
+  return { ...path, keyframes };
+};
+
+// --- Playback ---
+
+// Written every frame while a path plays, read by the editor's playhead
+export interface CameraPathPlayback {
+  time: number; // Seconds into the path
+}
+
+export type CameraPathSampler = (time: number, position: THREE.Vector3, target: THREE.Vector3) => void;
+
+// Returns a function that writes the camera pose at `time` seconds into the path.
+// Time within each segment is eased before being mapped onto the splines.
+export const createCameraPathSampler = (path: CameraPath): CameraPathSampler | null => {
+  const keyframes = path.keyframes;
+  if (keyframes.length === 0) return null;
+  if (keyframes.length === 1) {
+    return (_, position, target) => {
+      position.fromArray(keyframes[0].position);
+      target.fromArray(keyframes[0].target);
+    };
+  }
+
+  const positions = new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.position)), false, 'centripetal');
+  const targets = new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.target)), false, 'centripetal');
+  const times = keyframeTimes(path);
+  const eases = keyframes.map(k => gsap.parseEase(k.ease));
+  const segments = keyframes.length - 1;
+
+  return (time, position, target) => {
+    let i = 1;
+    while (i < segments && time >= times[i]) i++;
+    const duration = times[i] - times[i - 1];
+    const u = duration > 0 ? THREE.MathUtils.clamp((time - times[i - 1]) / duration, 0, 1) : 1;
+    const t = (i - 1 + eases[i](u)) / segments;
+    positions.getPoint(t, position);
+    targets.getPoint(t, target);
+  };
+};
+
+// --- Files ---
+
+interface CameraPathFile {
+  version: number;
+  name: string;
+  keyframes: Omit<CameraKeyframe, 'id'>[];
+}
+
+export class CameraPathValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid camera path:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'CameraPathValidationError';
+  }
+}
+
+const vec3 = (v: Validator, raw: unknown, path: string): Vec3Tuple => {
+  if (!Array.isArray(raw) || raw.length !== 3) {
+    v.issues.push(`${path} must be an [x, y, z] array (got ${JSON.stringify(raw)})`);
+    return [0, 0, 0];
+  }
+  return raw.map((n, i) => v.number(n, `${path}[${i}]`)) as Vec3Tuple;
+};
+
+const validateKeyframe = (v: Validator, raw: unknown, path: string): CameraKeyframe | null => {
+  const keyframe = v.object(raw, path);
+  if (!keyframe) return null;
+  const ease = keyframe.ease as CameraPathEase;
+  if (!CAMERA_PATH_EASES.includes(ease)) {
+    v.issues.push(`${path}.ease must be one of ${CAMERA_PATH_EASES.join(', ')} (got ${JSON.stringify(keyframe.ease)})`);
+  }
+  return createKeyframe(
+    vec3(v, keyframe.position, `${path}.position`),
+    vec3(v, keyframe.target, `${path}.target`),
+    v.number(keyframe.duration, `${path}.duration`, { min: 0 }),
+    ease
+  );
+};
+
+// Validates untrusted JSON. Throws CameraPathValidationError listing every issue found.
+export const parseCameraPath = (json: string): CameraPath => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new CameraPathValidationError([`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const v = createValidator();
+  const root = v.object(raw, 'camera path');
+  if (!root) throw new CameraPathValidationError(v.issues);
+  if (root.version !== CAMERA_PATH_VERSION) {
+    // Nothing else can be trusted in a file of another version
+    throw new CameraPathValidationError([`version must be ${CAMERA_PATH_VERSION} (got ${JSON.stringify(root.version)})`]);
+  }
+
+  let keyframes: CameraKeyframe[] = [];
+  if (!Array.isArray(root.keyframes)) {
+    v.issues.push('keyframes must be an array');
+  } else {
+    keyframes = root.keyframes
+      .map((k, i) => validateKeyframe(v, k, `keyframes[${i}]`))
+      .filter((k): k is CameraKeyframe => !!k);
+  }
+
+  if (v.issues.length > 0) throw new CameraPathValidationError(v.issues);
+  const name = typeof root.name === 'string' && root.name ? root.name : EMPTY_CAMERA_PATH.name;
+  return { name, keyframes };
+};
+
+export const downloadCameraPath = (path: CameraPath) => {
+  const file: CameraPathFile = {
+    version: CAMERA_PATH_VERSION,
+    name: path.name,
+    keyframes: path.keyframes.map(({ id, ...keyframe }) => keyframe)
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${path.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'camera-path'}.json`);
+};
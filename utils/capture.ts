@@ -0,0 +1,154 @@
+import gsap from 'gsap';
+import { Zip, ZipPassThrough } from 'three/examples/jsm/libs/fflate.module.js';
+
+// Offline capture of the scene: PNG stills, numbered PNG frame sequences
+// packed as a ZIP, or WebM video. Frames are rendered with a fixed timestep,
+// so motion is the same however long each frame takes to render.
+
+export type CaptureFormat = 'PNG' | 'ZIP' | 'WEBM';
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  width: number; // Output pixels; may exceed the screen
+  height: number;
+  fps: number; // Simulation steps per second of output (sequences and video)
+  frames: number; // Sequences and video; stills take one
+  includeUI: boolean; // Composite the HTML overlay over the render
+}
+
+export interface CaptureProgress {
+  frame: number;
+  total: number;
+}
+
+export const CAPTURE_FORMAT_LABELS: Record<CaptureFormat, string> = {
+  PNG: 'PNG',
+  ZIP: 'Frames',
+  WEBM: 'WebM',
+};
+
+export const CAPTURE_RESOLUTIONS: { label: string; width: number; height: number }[] = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+
+export const CAPTURE_FRAME_RATES = [24, 30, 60];
+
+export const MAX_CAPTURE_FRAMES = 3600;
+
+// Frame sequences are written to a ZIP the browser holds until it is saved, so
+// they are also limited by size: a minute at 30 fps in 1080p, fewer frames above it
+const MAX_SEQUENCE_PIXELS = 1800 * 1920 * 1080;
+
+export const maxCaptureFrames = (format: CaptureFormat, width: number, height: number): number => (
+  format === 'ZIP'
+    ? Math.max(1, Math.min(MAX_CAPTURE_FRAMES, Math.floor(MAX_SEQUENCE_PIXELS / (width * height))))
+    : MAX_CAPTURE_FRAMES
+);
+
+// Implemented inside the Canvas, which owns the renderer and the frame loop
+export interface SceneCapturer {
+  capture: (
+    options: CaptureOptions,
+    overlay: HTMLElement | null, // Composited when options.includeUI is set
+    onProgress: (progress: CaptureProgress) => void,
+    signal: AbortSignal
+  ) => Promise<void>;
+}
+
+// How the canvas is laid out while capturing: the largest box of the output's
+// aspect ratio that fits the window, with a pixel ratio that fills it at full resolution
+export interface CaptureLayout {
+  cssWidth: number;
+  cssHeight: number;
+  dpr: number;
+}
+
+export const captureLayout = (width: number, height: number): CaptureLayout => {
+  const fit = Math.min(window.innerWidth / width, window.innerHeight / height);
+  const cssWidth = Math.max(1, Math.round(width * fit));
+  const cssHeight = Math.max(1, Math.round(height * fit));
+  return { cssWidth, cssHeight, dpr: width / cssWidth };
+};
+
+// Steps every GSAP animation (camera moves, tours, scale morphs) in lockstep
+// with the captured frames instead of the wall clock
+export const createAnimationStepper = () => {
+  const timeline = gsap.globalTimeline;
+  timeline.pause();
+  return {
+    step: (seconds: number) => {
+      timeline.totalTime(timeline.totalTime() + seconds);
+    },
+    // Carries on from the captured time rather than jumping to the wall clock
+    release: () => {
+      const time = timeline.totalTime();
+      timeline.resume();
+      timeline.startTime(gsap.ticker.time - time);
+    }
+  };
+};
+
+export const webmMimeType = (): string | undefined => (
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type))
+);
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the frame as PNG.'))), 'image/png');
+});
+
+// Streams a frame sequence into a ZIP as it is captured. Each frame is written
+// as soon as it is added and kept only as Blob parts, which the browser can page
+// out to disk, so the sequence is never held twice or packed all at once. PNGs
+// are already compressed, so frames are stored rather than deflated.
+export const createFrameZip = () => {
+  const parts: Blob[] = [];
+  let failure: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) failure = error;
+    else parts.push(new Blob([chunk]));
+  });
+  const check = () => {
+    if (failure) throw new Error(`Could not write the frame sequence: ${failure.message}`);
+  };
+  return {
+    add: async (name: string, png: Blob) => {
+      check();
+      let data: Uint8Array;
+      try {
+        data = new Uint8Array(await png.arrayBuffer());
+      } catch {
+        throw new Error('Ran out of memory for the frame sequence. Try fewer frames or a lower resolution.');
+      }
+      const file = new ZipPassThrough(name);
+      zip.add(file);
+      file.push(data, true);
+      check();
+    },
+    finish: (): Blob => {
+      zip.end();
+      check();
+      return new Blob(parts, { type: 'application/zip' });
+    }
+  };
+};
+
+export const frameFileName = (index: number) => `frame-${String(index).padStart(5, '0')}.png`;
+
+export const captureFileName = (extension: string) => (
+  `solar-system-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`
+);
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Large files can still be streaming to disk when click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,85 @@
+// Command palette registry and fuzzy search. Features contribute commands by
+// registering a source; sources see the query, so they can offer commands that
+// take an argument ("set time scale 3") as well as fixed ones.
+
+export interface PaletteCommand {
+  id: string;
+  title: string;
+  group: string; // Shown beside the result when it has no hint, e.g. "Bodies"
+  keywords?: string[]; // Extra words to match, e.g. a body's category
+  hint?: string; // Shown on the right, e.g. a shortcut
+  run: () => void;
+}
+
+export type CommandSource = (query: string) => PaletteCommand[];
+
+export interface CommandRegistry {
+  register: (source: CommandSource) => () => void; // Returns the unregister function
+  commands: (query: string) => PaletteCommand[];
+}
+
+export const createCommandRegistry = (): CommandRegistry => {
+  const sources = new Set<CommandSource>();
+  return {
+    register: (source) => {
+      sources.add(source);
+      return () => {
+        sources.delete(source);
+      };
+    },
+    commands: (query) => [...sources].flatMap(source => source(query)),
+  };
+};
+
+// Scores `text` against `query` as an in-order subsequence, favouring matches
+// that are contiguous or start words. Returns null when it doesn't match.
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  let score = 0;
+  let previous = -2;
+  let ti = 0;
+  for (const char of q) {
+    const found = t.indexOf(char, ti);
+    if (found < 0) return null;
+    score += 1;
+    if (found === previous + 1) score += 2; // Contiguous
+    if (found === 0 || /[\s\-_:]/.test(t[found - 1])) score += 3; // Word start
+    score -= Math.min(found - ti, 3) * 0.1; // Gaps
+    previous = found;
+    ti = found + 1;
+  }
+  return score - t.length * 0.01; // Prefer shorter titles on ties
+};
+
+export const MAX_PALETTE_RESULTS = 50;
+
+// Every word of the query must match somewhere, in any order
+const wordsScore = (words: string[], text: string): number | null => {
+  let total = 0;
+  for (const word of words) {
+    const score = fuzzyScore(word, text);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+};
+
+export const searchCommands = (registry: CommandRegistry, query: string): PaletteCommand[] => {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  return registry.commands(query)
+    .map(command => ({
+      command,
+      // The title alone scores best; keywords let a query like "saturn moon" reach further
+      score: Math.max(
+        fuzzyScore(query, command.title) ?? -Infinity,
+        (wordsScore(words, [command.title, ...(command.keywords ?? [])].join(' ')) ?? -Infinity) - 1
+      )
+    }))
+    .filter(result => result.score > -Infinity)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PALETTE_RESULTS)
+    .map(result => result.command);
+};
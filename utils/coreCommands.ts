@@ -0,0 +1,178 @@
+import { AppState, BodyCategory, ControlMode, ParticleDensity } from '../types';
+import { CommandSource, PaletteCommand } from './commands';
+import { SCALE_MODES, SCALE_MODE_LABELS } from './scaleModes';
+import { LAYER_LABELS, LayerToggle } from './layers';
+import { defaultMeasurement } from './measurements';
+
+// The palette's built-in commands: every body and moon, plus the app's settings.
+
+const CATEGORY_NAMES: Record<BodyCategory, string> = {
+  star: 'Star',
+  planet: 'Planet',
+  dwarf: 'Dwarf planet',
+  comet: 'Comet',
+};
+
+const CONTROL_MODE_NAMES: Record<ControlMode, string> = {
+  [ControlMode.MOUSE]: 'Mouse',
+  [ControlMode.KEYBOARD]: 'Keyboard',
+  [ControlMode.AUTO]: 'Auto tour',
+  [ControlMode.HAND]: 'Hand',
+  [ControlMode.GAMEPAD]: 'Gamepad',
+};
+
+const DENSITIES: ParticleDensity[] = ['LOW', 'MEDIUM', 'HIGH'];
+const MAX_SPEED = 5; // Matches the Time Scale slider
+const SPEED_PRESETS = [1, 2, 5, -1];
+
+const capitalize = (text: string) => text.charAt(0) + text.slice(1).toLowerCase();
+
+export const coreCommands = (appState: AppState): CommandSource => (query) => {
+  const commands: PaletteCommand[] = [];
+
+  appState.bodies.forEach(body => {
+    const category = CATEGORY_NAMES[body.category ?? 'planet'];
+    commands.push({
+      id: `body:${body.id}`,
+      title: body.name,
+      group: 'Bodies',
+      keywords: [category, 'focus', 'go to'],
+      hint: category,
+      run: () => appState.setFocusedBody(body.id)
+    });
+    body.moonCatalog?.forEach(moon => {
+      commands.push({
+        id: `body:${moon.id}`,
+        title: moon.name,
+        group: 'Bodies',
+        keywords: ['moon', body.name, 'focus', 'go to'],
+        hint: `Moon of ${body.name}`,
+        run: () => appState.setFocusedBody(moon.id)
+      });
+    });
+  });
+
+  // A number in the query becomes the time scale; otherwise offer a few presets
+  const number = /-?\d+(?:\.\d+)?/.exec(query);
+  const speeds = number
+    ? [Math.max(-MAX_SPEED, Math.min(MAX_SPEED, parseFloat(number[0])))]
+    : SPEED_PRESETS;
+  speeds.forEach(speed => {
+    commands.push({
+      id: `speed:${speed}`,
+      title: `Set time scale ${speed}×`,
+      group: 'Time',
+      keywords: speed < 0 ? ['speed', 'backwards', 'reverse'] : ['speed'],
+      run: () => appState.setSimulationSpeed(speed)
+    });
+  });
+  commands.push({
+    id: 'pause',
+    title: appState.isPaused ? 'Resume time' : 'Pause time',
+    group: 'Time',
+    keywords: ['play', 'stop', 'freeze'],
+    run: () => appState.setIsPaused(!appState.isPaused)
+  });
+
+  commands.push({
+    id: 'reset-view',
+    title: 'Reset view',
+    group: 'View',
+    keywords: ['overview', 'home', 'unfocus'],
+    run: () => appState.setFocusedBody(null)
+  });
+  Object.values(ControlMode).forEach(mode => {
+    commands.push({
+      id: `mode:${mode}`,
+      title: `Switch to ${CONTROL_MODE_NAMES[mode]} mode`,
+      group: 'View',
+      keywords: ['control', 'input'],
+      run: () => appState.setControlMode(mode)
+    });
+  });
+  SCALE_MODES.forEach(mode => {
+    commands.push({
+      id: `scale:${mode}`,
+      title: `Set scale ${SCALE_MODE_LABELS[mode]}`,
+      group: 'View',
+      keywords: ['distance', 'size'],
+      run: () => appState.setScaleMode(mode)
+    });
+  });
+
+  (Object.keys(LAYER_LABELS) as LayerToggle[]).forEach(layer => {
+    const shown = appState.layers[layer];
+    commands.push({
+      id: `layer:${layer}`,
+      title: `${shown ? 'Hide' : 'Show'} ${LAYER_LABELS[layer].toLowerCase()}`,
+      group: 'View',
+      keywords: ['layer', 'toggle', 'overlay'],
+      run: () => appState.setLayers({ ...appState.layers, [layer]: !shown })
+    });
+  });
+
+  DENSITIES.forEach(density => {
+    commands.push({
+      id: `quality:${density}`,
+      title: `Set quality ${capitalize(density)}`,
+      group: 'Settings',
+      keywords: ['particles', 'density', 'performance'],
+      run: () => appState.setParticleDensity(density)
+    });
+  });
+  commands.push(
+    {
+      id: 'units',
+      title: appState.unitSystem === 'METRIC' ? 'Use imperial units' : 'Use metric units',
+      group: 'Settings',
+      keywords: ['miles', 'kilometres', 'kilometers'],
+      run: () => appState.setUnitSystem(appState.unitSystem === 'METRIC' ? 'IMPERIAL' : 'METRIC')
+    },
+    {
+      id: 'toggle-ui',
+      title: appState.showUI ? 'Hide interface' : 'Show interface',
+      group: 'Settings',
+      keywords: ['toggle ui', 'overlay'],
+      run: () => appState.setShowUI(!appState.showUI)
+    },
+    {
+      id: 'settings',
+      title: 'Open configuration',
+      group: 'Settings',
+      keywords: ['settings', 'preferences'],
+      run: () => {
+        appState.setShowUI(true);
+        appState.setShowSettings(true);
+      }
+    },
+    {
+      id: 'measure',
+      title: 'Measure distance',
+      group: 'View',
+      keywords: ['light time', 'signal', 'separation', 'ruler'],
+      run: () => {
+        appState.setMeasurement(defaultMeasurement(appState.bodies, appState.focusedBody));
+        appState.setShowUI(true);
+        appState.setIsMeasuring(true);
+      }
+    },
+    {
+      id: 'shortcuts',
+      title: 'Keyboard shortcuts',
+      group: 'Settings',
+      keywords: ['keys', 'bindings', 'help'],
+      run: () => appState.setShowShortcutHelp(true)
+    },
+    {
+      id: 'copy-link',
+      title: 'Copy link to this view',
+      group: 'Settings',
+      keywords: ['share', 'url'],
+      run: () => {
+        appState.copyViewLink().catch(error => console.warn('Could not copy the view link:', error));
+      }
+    }
+  );
+
+  return commands;
+};
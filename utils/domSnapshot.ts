@@ -0,0 +1,46 @@
+// Renders a live DOM subtree to an image through an SVG <foreignObject>, for
+// compositing the HTML overlay into captured frames. Computed styles are
+// inlined because the SVG image can't see the page's stylesheets. Canvases,
+// videos and anything marked data-capture-ignore are left out.
+
+const SKIPPED_TAGS = new Set(['CANVAS', 'VIDEO', 'SCRIPT', 'STYLE', 'LINK']);
+
+const cloneWithStyles = (source: Element): Element | null => {
+  if (SKIPPED_TAGS.has(source.tagName) || source.hasAttribute('data-capture-ignore')) return null;
+
+  const clone = source.cloneNode(false) as Element;
+  const computed = getComputedStyle(source);
+  let css = '';
+  for (let i = 0; i < computed.length; i++) {
+    const property = computed[i];
+    css += `${property}:${computed.getPropertyValue(property)};`;
+  }
+  clone.setAttribute('style', css);
+  if (source instanceof HTMLInputElement) clone.setAttribute('value', source.value);
+
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      clone.appendChild(child.cloneNode());
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const childClone = cloneWithStyles(child as Element);
+      if (childClone) clone.appendChild(childClone);
+    }
+  });
+  return clone;
+};
+
+export const snapshotElement = async (root: HTMLElement): Promise<HTMLImageElement> => {
+  const width = root.clientWidth;
+  const height = root.clientHeight;
+  const clone = cloneWithStyles(root);
+  if (!clone) throw new Error('The overlay element is excluded from capture.');
+  // The overlay is composited over the render, so its own background must not hide it
+  clone.setAttribute('style', `${clone.getAttribute('style')}background:transparent;`);
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const image = new Image(width, height);
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await image.decode();
+  return image;
+};
@@ -0,0 +1,263 @@
+import * as THREE from 'three';
+import { CameraTarget, PlanetData } from '../types';
+import { heliocentricPosition, measureSeparation } from './measurements';
+import { J2000 } from './simulationClock';
+import { ScaleTransition, placeOnScaledOrbit } from './scaleModes';
+
+// Sky events as seen from Earth, found by stepping the orbit model through a
+// date range a day at a time and refining each candidate to within minutes.
+// Positions are Keplerian, so dates are good to about a day for the inner
+// planets; close enough to plan an observing night around.
+
+export type SkyEventKind = 'CONJUNCTION' | 'OPPOSITION' | 'ELONGATION' | 'ALIGNMENT';
+
+export const SKY_EVENT_LABELS: Record<SkyEventKind, string> = {
+  CONJUNCTION: 'Conjunctions',
+  OPPOSITION: 'Oppositions',
+  ELONGATION: 'Greatest elongations',
+  ALIGNMENT: 'Alignments',
+};
+
+export interface SkyEvent {
+  kind: SkyEventKind;
+  julianDate: number;
+  bodies: string[]; // Ids of the bodies involved, excluding Earth
+  title: string;
+  detail: string;
+}
+
+export const EARTH_ID = 'earth';
+export const MAX_SEARCH_DAYS = 366 * 20; // Longer searches would stall the page
+
+const CONJUNCTION_MAX_SEPARATION = 3; // Degrees between the two planets
+const ALIGNMENT_MIN_PLANETS = 4;
+const ALIGNMENT_MAX_SPAN = 40; // Degrees of ecliptic longitude holding them all
+const ALIGNMENT_MIN_GAP_DAYS = 60;
+const REFINE_ITERATIONS = 24;
+const RAD2DEG = 180 / Math.PI;
+
+// Direction from Earth to each planet (and the star), per day of the search
+type Sky = (daysSinceEpoch: number) => Map<string, THREE.Vector3>;
+
+const createSky = (earth: PlanetData, targets: PlanetData[]): Sky => {
+  const earthPosition = new THREE.Vector3();
+  return (days) => {
+    heliocentricPosition(earth, days, earthPosition);
+    const directions = new Map<string, THREE.Vector3>();
+    targets.forEach(body => {
+      directions.set(body.id, heliocentricPosition(body, days, new THREE.Vector3()).sub(earthPosition).normalize());
+    });
+    return directions;
+  };
+};
+
+// Ecliptic longitude of a scene-space direction (+Y is ecliptic north, -Z is ecliptic +Y)
+const longitude = (direction: THREE.Vector3) => Math.atan2(-direction.z, direction.x);
+
+const wrapDegrees = (degrees: number) => ((degrees % 360) + 540) % 360 - 180;
+
+// Golden-section search for the extremum of `f` between a and b
+const refineExtremum = (f: (days: number) => number, a: number, b: number, sign: 1 | -1): number => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    if (sign * f(c) < sign * f(d)) {
+      b = d;
+    } else {
+      a = c;
+    }
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+};
+
+// Bisection for a sign change of `f` between a and b
+const refineRoot = (f: (days: number) => number, a: number, b: number): number => {
+  let fa = f(a);
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = mid;
+      fa = fm;
+    } else {
+      b = mid;
+    }
+  }
+  return (a + b) / 2;
+};
+
+// Indices of local minima (sign 1) or maxima (sign -1) in a sampled series
+const extrema = (values: number[], sign: 1 | -1): number[] => {
+  const found: number[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    if (sign * values[i] < sign * values[i - 1] && sign * values[i] <= sign * values[i + 1]) found.push(i);
+  }
+  return found;
+};
+
+// The narrowest arc of longitude holding `count` of the planets
+const tightestGroup = (longitudes: { id: string; degrees: number }[], count: number) => {
+  const sorted = [...longitudes].sort((a, b) => a.degrees - b.degrees);
+  let best = { span: Infinity, ids: [] as string[] };
+  for (let i = 0; i < sorted.length; i++) {
+    const group = Array.from({ length: count }, (_, k) => sorted[(i + k) % sorted.length]);
+    const span = ((group[count - 1].degrees - group[0].degrees) % 360 + 360) % 360;
+    if (span < best.span) best = { span, ids: group.map(g => g.id) };
+  }
+  return best;
+};
+
+// Every event of the given kinds between two Julian dates, in date order.
+// Needs a planet with the id "earth" to observe from.
+export const findSkyEvents = (
+  bodies: PlanetData[],
+  startJD: number,
+  endJD: number,
+  kinds: SkyEventKind[]
+): SkyEvent[] => {
+  const earth = bodies.find(b => b.id === EARTH_ID);
+  const star = bodies[0];
+  if (!earth?.orbit) return [];
+  const planets = bodies.filter(b => b !== earth && b.orbit && b.distance > 0 && (b.category ?? 'planet') === 'planet');
+  const sky = createSky(earth, [star, ...planets]);
+  const name = (id: string) => bodies.find(b => b.id === id)?.name ?? id;
+  const events: SkyEvent[] = [];
+
+  const startDay = Math.floor(startJD - J2000);
+  const days = Array.from({ length: Math.max(0, Math.min(MAX_SEARCH_DAYS, Math.ceil(endJD - startJD))) + 1 }, (_, i) => startDay + i);
+  const samples = days.map(sky);
+  const inRange = (day: number) => day + J2000 >= startJD && day + J2000 <= endJD;
+
+  const separation = (a: string, b: string) => (day: number) => {
+    const directions = sky(day);
+    return directions.get(a)!.angleTo(directions.get(b)!) * RAD2DEG;
+  };
+  const elongation = (id: string) => separation(star.id, id);
+
+  if (kinds.includes('CONJUNCTION')) {
+    planets.forEach((a, i) => planets.slice(i + 1).forEach(b => {
+      const series = samples.map(s => s.get(a.id)!.angleTo(s.get(b.id)!) * RAD2DEG);
+      extrema(series, 1).forEach(index => {
+        const f = separation(a.id, b.id);
+        const day = refineExtremum(f, days[index - 1], days[index + 1], 1);
+        const degrees = f(day);
+        if (degrees > CONJUNCTION_MAX_SEPARATION || !inRange(day)) return;
+        events.push({
+          kind: 'CONJUNCTION',
+          julianDate: day + J2000,
+          bodies: [a.id, b.id],
+          title: `${a.name} and ${b.name}`,
+          detail: `${degrees.toFixed(1)}° apart, ${elongation(a.id)(day).toFixed(0)}° from ${star.name}`,
+        });
+      });
+    }));
+  }
+
+  // Superior planets opposite the star, i.e. their longitude minus the star's crosses 180°
+  if (kinds.includes('OPPOSITION')) {
+    planets.filter(p => p.orbit!.semiMajorAxis > earth.orbit!.semiMajorAxis).forEach(planet => {
+      const f = (day: number) => {
+        const directions = sky(day);
+        return wrapDegrees((longitude(directions.get(planet.id)!) - longitude(directions.get(star.id)!)) * RAD2DEG - 180);
+      };
+      const series = days.map(f);
+      for (let i = 1; i < series.length; i++) {
+        // A crossing, not the wrap from +180 to -180
+        if (Math.sign(series[i]) === Math.sign(series[i - 1]) || Math.abs(series[i] - series[i - 1]) > 90) continue;
+        const day = refineRoot(f, days[i - 1], days[i]);
+        if (!inRange(day)) continue;
+        events.push({
+          kind: 'OPPOSITION',
+          julianDate: day + J2000,
+          bodies: [planet.id],
+          title: `${planet.name} at opposition`,
+          detail: `${measureSeparation(bodies, { from: EARTH_ID, to: planet.id }, day)!.au.toFixed(2)} AU from Earth, up all night`,
+        });
+      }
+    });
+  }
+
+  // Inferior planets at their furthest from the star in the sky
+  if (kinds.includes('ELONGATION')) {
+    planets.filter(p => p.orbit!.semiMajorAxis < earth.orbit!.semiMajorAxis).forEach(planet => {
+      const f = elongation(planet.id);
+      const series = samples.map(s => s.get(star.id)!.angleTo(s.get(planet.id)!) * RAD2DEG);
+      extrema(series, -1).forEach(index => {
+        const day = refineExtremum(f, days[index - 1], days[index + 1], -1);
+        if (!inRange(day)) return;
+        const directions = sky(day);
+        const east = wrapDegrees((longitude(directions.get(planet.id)!) - longitude(directions.get(star.id)!)) * RAD2DEG) > 0;
+        events.push({
+          kind: 'ELONGATION',
+          julianDate: day + J2000,
+          bodies: [planet.id],
+          title: `${planet.name} at greatest ${east ? 'eastern' : 'western'} elongation`,
+          detail: `${f(day).toFixed(1)}° from ${star.name}, best seen ${east ? 'after sunset' : 'before sunrise'}`,
+        });
+      });
+    });
+  }
+
+  // The days on which several planets bunch up most tightly along the ecliptic
+  if (kinds.includes('ALIGNMENT') && planets.length >= ALIGNMENT_MIN_PLANETS) {
+    const groups = samples.map(s => tightestGroup(
+      planets.map(p => ({ id: p.id, degrees: longitude(s.get(p.id)!) * RAD2DEG })),
+      ALIGNMENT_MIN_PLANETS
+    ));
+    const candidates = extrema(groups.map(g => g.span), 1)
+      .filter(index => groups[index].span <= ALIGNMENT_MAX_SPAN && inRange(days[index]));
+    // Planets drifting past each other make several shallow minima; keep the tightest of each gathering
+    candidates
+      .filter(index => !candidates.some(other => (
+        Math.abs(other - index) < ALIGNMENT_MIN_GAP_DAYS && groups[other].span < groups[index].span
+      )))
+      .forEach(index => {
+        const { span, ids } = groups[index];
+        const ordered = planets.filter(p => ids.includes(p.id)).map(p => p.id);
+        events.push({
+          kind: 'ALIGNMENT',
+          julianDate: days[index] + J2000,
+          bodies: ordered,
+          title: `${ordered.map(name).join(', ')} aligned`,
+          detail: `Within ${span.toFixed(0)}° of each other`,
+        });
+      });
+  }
+
+  return events.sort((a, b) => a.julianDate - b.julianDate);
+};
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// A view from just behind Earth towards the event: the planets involved, plus
+// the star for an elongation. Scene positions are taken at the event's date.
+export const skyEventView = (
+  event: SkyEvent,
+  bodies: PlanetData[],
+  transition: ScaleTransition,
+  earthRadius: number
+): CameraTarget | null => {
+  const earth = bodies.find(b => b.id === EARTH_ID);
+  if (!earth) return null;
+  const days = event.julianDate - J2000;
+  const position = new THREE.Vector3();
+  placeOnScaledOrbit(transition, earth, days, position);
+
+  const target = new THREE.Vector3();
+  const point = new THREE.Vector3();
+  const involved = bodies.filter(b => event.bodies.includes(b.id));
+  involved.forEach(body => {
+    placeOnScaledOrbit(transition, body, days, point);
+    target.add(point);
+  });
+  if (event.kind === 'ELONGATION') involved.push(bodies[0]); // The star sits at the origin
+  target.divideScalar(Math.max(1, involved.length));
+
+  const direction = point.subVectors(target, position).normalize();
+  const back = earthRadius * 6;
+  position.addScaledVector(direction, -back).addScaledVector(UP, back * 0.3);
+  return { position, target };
+};
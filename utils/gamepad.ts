@@ -0,0 +1,90 @@
+// Gamepad input for GAMEPAD mode. Mappings name axis and button indices, so
+// controllers without the browser's "standard" layout (arcade sticks, cabinet
+// encoders) can be mapped by moving or pressing whatever they have.
+
+export type GamepadAxisAction = 'orbitX' | 'orbitY' | 'zoom';
+export type GamepadButtonAction = 'previousBody' | 'nextBody' | 'slower' | 'faster' | 'resetView';
+
+export interface GamepadMapping {
+  axes: Record<GamepadAxisAction, number>;
+  buttons: Record<GamepadButtonAction, number>;
+  invertY: boolean;
+  deadZone: number; // Stick travel ignored around the centre, 0..1
+}
+
+// Indices in the standard layout: left stick orbits, right stick zooms,
+// bumpers cycle bodies, triggers scrub time and B resets
+export const DEFAULT_GAMEPAD_MAPPING: GamepadMapping = {
+  axes: { orbitX: 0, orbitY: 1, zoom: 3 },
+  buttons: { previousBody: 4, nextBody: 5, slower: 6, faster: 7, resetView: 1 },
+  invertY: false,
+  deadZone: 0.15,
+};
+
+export const GAMEPAD_AXIS_LABELS: Record<GamepadAxisAction, string> = {
+  orbitX: 'Orbit left / right',
+  orbitY: 'Orbit up / down',
+  zoom: 'Zoom',
+};
+
+export const GAMEPAD_BUTTON_LABELS: Record<GamepadButtonAction, string> = {
+  previousBody: 'Previous body',
+  nextBody: 'Next body',
+  slower: 'Slower time (hold)',
+  faster: 'Faster time (hold)',
+  resetView: 'Reset view',
+};
+
+// Rescales so output starts from zero at the edge of the dead zone
+export const applyDeadZone = (value: number, deadZone: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadZone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+};
+
+// Latest stick positions, written by the gamepad poller and read by the camera each frame
+export interface GamepadInput {
+  connected: boolean;
+  orbit: { x: number; y: number }; // -1..1 after the dead zone
+  zoom: number; // Positive zooms out
+}
+
+export const readGamepadAxes = (pad: Gamepad, mapping: GamepadMapping): Omit<GamepadInput, 'connected'> => {
+  const axis = (index: number) => applyDeadZone(pad.axes[index] ?? 0, mapping.deadZone);
+  return {
+    orbit: { x: axis(mapping.axes.orbitX), y: axis(mapping.axes.orbitY) * (mapping.invertY ? -1 : 1) },
+    zoom: axis(mapping.axes.zoom),
+  };
+};
+
+// Analogue triggers report partial presses through value
+export const buttonValue = (pad: Gamepad, index: number): number => {
+  const button = pad.buttons[index];
+  return button ? Math.max(button.value, button.pressed ? 1 : 0) : 0;
+};
+
+// The first connected pad; browsers leave gaps in the list when pads unplug
+export const firstGamepad = (): Gamepad | null => (
+  typeof navigator.getGamepads === 'function'
+    ? navigator.getGamepads().find((pad): pad is Gamepad => !!pad && pad.connected) ?? null
+    : null
+);
+
+// While remapping: the first button pressed, or axis pushed well past centre
+export const detectGamepadInput = (pad: Gamepad, rest: readonly number[]): { type: 'axis' | 'button'; index: number } | null => {
+  const button = pad.buttons.findIndex(b => b.pressed);
+  if (button >= 0) return { type: 'button', index: button };
+  const axis = pad.axes.findIndex((value, i) => Math.abs(value - (rest[i] ?? 0)) > 0.6);
+  return axis >= 0 ? { type: 'axis', index: axis } : null;
+};
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const isGamepadMapping = (value: unknown): value is GamepadMapping => {
+  const mapping = value as GamepadMapping;
+  return !!mapping && typeof mapping === 'object'
+    && !!mapping.axes && (Object.keys(GAMEPAD_AXIS_LABELS) as GamepadAxisAction[]).every(a => isIndex(mapping.axes[a]))
+    && !!mapping.buttons && (Object.keys(GAMEPAD_BUTTON_LABELS) as GamepadButtonAction[]).every(b => isIndex(mapping.buttons[b]))
+    && typeof mapping.invertY === 'boolean'
+    && typeof mapping.deadZone === 'number' && mapping.deadZone >= 0 && mapping.deadZone < 1;
+};
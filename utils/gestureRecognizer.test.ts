@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkFrame, createGestureRecognizer, recognizeFrames } from './gestureRecognizer';
+import { DEFAULT_GESTURE_CALIBRATION, FINGERS, FingerName, Landmark } from './handPose';
+
+// Synthetic MediaPipe hands: the wrist at (x, y) with the fingers pointing up the
+// image. Extended fingers are straight; the others fold back into the palm.
+const MCP_OFFSETS: Record<FingerName, number> = { index: -0.03, middle: -0.01, ring: 0.01, pinky: 0.03 };
+const FINGER_BASE = [5, 9, 13, 17];
+const PHALANX = 0.03;
+
+const hand = (x: number, y: number, extended: FingerName[], pinch = false): Landmark[] => {
+  const landmarks: Landmark[] = Array.from({ length: 21 }, () => ({ x, y, z: 0 }));
+  FINGERS.forEach((finger, f) => {
+    const mcp = { x: x + MCP_OFFSETS[finger], y: y - 0.1, z: 0 };
+    const joints = extended.includes(finger)
+      ? [1, 2, 3].map(i => ({ x: mcp.x, y: mcp.y - i * PHALANX, z: 0 }))
+      : [
+        { x: mcp.x, y: mcp.y, z: PHALANX },
+        { x: mcp.x, y: mcp.y + PHALANX, z: PHALANX },
+        { x: mcp.x, y: mcp.y + PHALANX, z: 0 }
+      ];
+    [mcp, ...joints].forEach((joint, i) => { landmarks[FINGER_BASE[f] + i] = joint; });
+  });
+  // The thumb reaches out to the side, or across to the index fingertip to pinch
+  landmarks[4] = pinch ? { ...landmarks[8], x: landmarks[8].x + 0.005 } : { x: x - 0.1, y: y - 0.05, z: 0 };
+  return landmarks;
+};
+
+const frame = (time: number, ...hands: Landmark[][]): LandmarkFrame => ({
+  time,
+  landmarks: hands,
+  handedness: hands.map(() => 'Right')
+});
+
+const VICTORY: FingerName[] = ['index', 'middle'];
+const POINT: FingerName[] = ['index'];
+const PALM: FingerName[] = [...FINGERS];
+
+describe('recognizeFrames', () => {
+  it('rotates with a moving two-finger sign, from the second frame on', () => {
+    const gestures = recognizeFrames([0, 1, 2].map(i => frame(i * 33, hand(0.5 + i * 0.01, 0.5, VICTORY))));
+    expect(gestures).toHaveLength(2);
+    gestures.forEach(({ gesture }) => {
+      expect(gesture.type).toBe('ROTATE');
+      expect(gesture.value.x).toBeCloseTo(0.01);
+      expect(gesture.value.y).toBeCloseTo(0);
+    });
+  });
+
+  it('ignores movement inside the rotate dead zone', () => {
+    const step = DEFAULT_GESTURE_CALIBRATION.rotateDeadZone / 2;
+    expect(recognizeFrames([0, 1, 2].map(i => frame(i * 33, hand(0.5 + i * step, 0.5, VICTORY))))).toEqual([]);
+  });
+
+  it('zooms in as two hands move apart and out as they come together', () => {
+    const spread = (time: number, gap: number) => frame(time, hand(0.5 - gap / 2, 0.5, PALM), hand(0.5 + gap / 2, 0.5, PALM));
+    const gestures = recognizeFrames([spread(0, 0.2), spread(33, 0.22), spread(66, 0.2), spread(99, 0.201)]);
+    expect(gestures.map(g => g.gesture.type)).toEqual(['ZOOM', 'ZOOM']);
+    expect(gestures[0].gesture.value).toBeCloseTo(0.4);
+    expect(gestures[1].gesture.value).toBeCloseTo(-0.4);
+  });
+
+  it('points with the index finger and selects with a pinch, mirrored for the screen', () => {
+    const [pointer, pinch] = recognizeFrames([frame(0, hand(0.3, 0.6, POINT)), frame(33, hand(0.3, 0.6, [], true))]);
+    expect(pointer.gesture).toEqual({ type: 'FOCUS', value: { x: expect.closeTo(0.73), y: expect.closeTo(0.41), pinch: false } });
+    expect(pinch.gesture.type).toBe('FOCUS');
+    expect(pinch.gesture.value.pinch).toBe(true);
+  });
+
+  it('exits focus once an open palm has been held long enough, then starts the hold again', () => {
+    const frames = Array.from({ length: 25 }, (_, i) => frame(i * 100, hand(0.5, 0.5, PALM)));
+    expect(recognizeFrames(frames)).toEqual([
+      { time: 1100, gesture: { type: 'EXIT_FOCUS' } },
+      { time: 2200, gesture: { type: 'EXIT_FOCUS' } }
+    ]);
+  });
+
+  it('restarts the palm hold when the palm closes', () => {
+    const frames = [0, 600].map(t => frame(t, hand(0.5, 0.5, PALM)))
+      .concat(frame(700, hand(0.5, 0.5, [])))
+      .concat([800, 1400, 1800].map(t => frame(t, hand(0.5, 0.5, PALM))));
+    expect(recognizeFrames(frames).map(g => g.time)).toEqual([1800]);
+  });
+
+  it('forgets the hand when it leaves the frame, so reappearing is not read as motion', () => {
+    const gestures = recognizeFrames([frame(0, hand(0.2, 0.5, VICTORY)), frame(33), frame(66, hand(0.8, 0.5, VICTORY))]);
+    expect(gestures).toEqual([{ time: 33, gesture: { type: 'NONE' } }]);
+  });
+});
+
+describe('createGestureRecognizer', () => {
+  it('drops the smoothing state on reset', () => {
+    const recognizer = createGestureRecognizer();
+    recognizer.process(frame(0, hand(0.2, 0.5, VICTORY)));
+    recognizer.reset();
+    expect(recognizer.process(frame(33, hand(0.8, 0.5, VICTORY))).gesture).toBeNull();
+    expect(recognizer.process(frame(66, hand(0.81, 0.5, VICTORY))).gesture?.type).toBe('ROTATE');
+  });
+});
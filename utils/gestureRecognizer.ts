@@ -0,0 +1,149 @@
+import { HandGesture } from '../types';
+import {
+  DEFAULT_GESTURE_CALIBRATION,
+  GestureCalibration,
+  Handedness,
+  Landmark,
+  classifyFingers,
+  palmSize,
+  selectPrimaryHand
+} from './handPose';
+
+// Pure gesture recognition: landmark frames in, HandGestures out.
+// No React, DOM or camera dependencies, so the same code runs live, on
+// recorded sessions and in headless regression checks.
+
+export interface LandmarkFrame {
+  time: number; // Milliseconds; only differences matter
+  landmarks: Landmark[][]; // One array of 21 landmarks per detected hand
+  handedness: (Handedness | null)[]; // Real-world hand for each entry in `landmarks`
+}
+
+export interface RecognitionResult {
+  gesture: HandGesture | null; // null means "no new gesture this frame", keep the previous one
+  label: string; // Human readable state for the debug panel
+}
+
+export interface GestureRecognizer {
+  process: (frame: LandmarkFrame) => RecognitionResult;
+  reset: () => void;
+}
+
+const PINCH_RATIO = 0.25; // Thumb-index distance relative to palm size
+
+export const createGestureRecognizer = (
+  getCalibration: () => GestureCalibration = () => DEFAULT_GESTURE_CALIBRATION
+): GestureRecognizer => {
+  // Smoothing state carried between frames
+  let lastHandPos: { x: number; y: number } | null = null;
+  let lastPinchDist: number | null = null;
+  let gestureHoldStart: number | null = null;
+
+  const reset = () => {
+    lastHandPos = null;
+    lastPinchDist = null;
+    gestureHoldStart = null;
+  };
+
+  const process = ({ time, landmarks: landmarksList, handedness }: LandmarkFrame): RecognitionResult => {
+    const calibration = getCalibration();
+
+    if (landmarksList.length === 0) {
+      lastHandPos = null;
+      lastPinchDist = null;
+      return { gesture: { type: 'NONE' }, label: 'No hand detected' };
+    }
+
+    // 1. TWO HANDS ZOOM
+    if (landmarksList.length === 2) {
+      const hand1 = landmarksList[0][0]; // Wrist of hand 1
+      const hand2 = landmarksList[1][0]; // Wrist of hand 2
+      const dist = Math.hypot(hand1.x - hand2.x, hand1.y - hand2.y);
+
+      let result: RecognitionResult = { gesture: null, label: 'Gesture: 2-HAND ZOOM' };
+      if (lastPinchDist !== null) {
+        const delta = dist - lastPinchDist;
+        if (Math.abs(delta) > calibration.zoomDeadZone) {
+          // Apart = Zoom In (move closer), Together = Zoom Out.
+          // Scene3D subtracts the zoom value from the camera distance, so positive = zoom in.
+          result = { gesture: { type: 'ZOOM', value: delta * 20 }, label: `Gesture: 2-HAND ZOOM ${delta > 0 ? 'IN' : 'OUT'}` };
+        }
+      }
+      lastPinchDist = dist;
+      lastHandPos = null; // Reset single hand tracking
+      return result;
+    }
+    lastPinchDist = null;
+
+    // Single Hand Processing (the preferred hand when several are visible)
+    const landmarks = landmarksList[selectPrimaryHand(handedness, calibration.handedness)];
+    const thumbTip = landmarks[4];
+    const indexTip = landmarks[8];
+    const wrist = landmarks[0];
+
+    // Finger states from joint bend angles (works for any hand orientation)
+    const fingers = classifyFingers(landmarks, calibration);
+
+    // 2. ROTATE: Two Fingers (Victory/Peace Sign)
+    // Index & Middle Extended, Ring & Pinky Curled
+    const isVictory = fingers.index && fingers.middle && !fingers.ring && !fingers.pinky;
+    if (isVictory) {
+      let result: RecognitionResult = { gesture: null, label: 'Gesture: 2-FINGER ROTATE' };
+      if (lastHandPos) {
+        const deltaX = wrist.x - lastHandPos.x;
+        const deltaY = wrist.y - lastHandPos.y;
+        if (Math.abs(deltaX) > calibration.rotateDeadZone || Math.abs(deltaY) > calibration.rotateDeadZone) {
+          result = { gesture: { type: 'ROTATE', value: { x: deltaX, y: deltaY } }, label: 'Gesture: 2-FINGER ROTATE' };
+        }
+      }
+      lastHandPos = { x: wrist.x, y: wrist.y };
+      return result;
+    }
+
+    lastHandPos = { x: wrist.x, y: wrist.y };
+
+    // 3. SELECT: Thumb-index pinch (distance relative to palm size so it works at any range)
+    const palm = palmSize(landmarks);
+    const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
+    if (palm > 0 && pinchDist / palm < PINCH_RATIO && !fingers.middle) {
+      return { gesture: { type: 'FOCUS', value: { x: 1 - indexTip.x, y: indexTip.y, pinch: true } }, label: 'Gesture: PINCH SELECT' };
+    }
+
+    // 4. EXIT FOCUS: Open Palm held for palmHoldMs
+    const isPalmOpen = fingers.index && fingers.middle && fingers.ring && fingers.pinky;
+    if (isPalmOpen) {
+      if (gestureHoldStart === null) gestureHoldStart = time;
+      if (time - gestureHoldStart > calibration.palmHoldMs) {
+        gestureHoldStart = time;
+        return { gesture: { type: 'EXIT_FOCUS' }, label: 'Gesture: EXIT FOCUS' };
+      }
+    } else {
+      gestureHoldStart = time;
+    }
+
+    // 5. POINTER: Index only
+    const isPointing = fingers.index && !fingers.middle && !fingers.ring && !fingers.pinky;
+    if (isPointing) {
+      return { gesture: { type: 'FOCUS', value: { x: 1 - indexTip.x, y: indexTip.y, pinch: false } }, label: 'Gesture: POINTER' };
+    }
+
+    return { gesture: null, label: 'Hand Detected. Use Gestures.' };
+  };
+
+  return { process, reset };
+};
+
+// Runs every frame of a recording through a fresh recognizer and returns the
+// emitted gestures in order, for fixtures and headless debugging.
+export const recognizeFrames = (
+  frames: LandmarkFrame[],
+  calibration: GestureCalibration = DEFAULT_GESTURE_CALIBRATION
+): { time: number; gesture: HandGesture }[] => {
+  const recognizer = createGestureRecognizer(() => calibration);
+  const gestures: { time: number; gesture: HandGesture }[] = [];
+  frames.forEach(frame => {
+    const { gesture } = recognizer.process(frame);
+    if (gesture) gestures.push({ time: frame.time, gesture });
+  });
+  return gestures;
+};
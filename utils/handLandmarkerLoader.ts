@@ -0,0 +1,108 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// MediaPipe assets are served by our own build (see vite.config.ts) so hand
+// tracking works offline. Set MEDIAPIPE_ASSET_BASE to load them from elsewhere.
+export const MEDIAPIPE_ASSET_BASE = (process.env.MEDIAPIPE_ASSET_BASE || '/mediapipe').replace(/\/$/, '');
+export const HAND_MODEL_FILE = 'hand_landmarker.task';
+
+export type HandTrackingDelegate = 'GPU' | 'CPU';
+
+export type HandTrackingStatus =
+  | { stage: 'wasm' }
+  | { stage: 'model'; progress: number | null } // 0..1, null when the size is unknown
+  | { stage: 'init'; delegate: HandTrackingDelegate }
+  | { stage: 'ready'; delegate: HandTrackingDelegate }
+  | { stage: 'error'; message: string };
+
+export const describeStatus = (status: HandTrackingStatus): string => {
+  switch (status.stage) {
+    case 'wasm': return 'Loading hand tracking runtime...';
+    case 'model': return status.progress === null
+      ? 'Loading hand model...'
+      : `Loading hand model... ${Math.round(status.progress * 100)}%`;
+    case 'init': return `Starting tracker (${status.delegate})...`;
+    case 'ready': return `Hand Tracking Ready (${status.delegate}). Enable Hand Mode to start.`;
+    case 'error': return status.message;
+  }
+};
+
+const fetchModel = async (url: string, onProgress: (progress: number | null) => void): Promise<Uint8Array> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`Could not reach the hand model at ${url}.`);
+  }
+  if (!response.ok) {
+    throw new Error(`Hand model not found at ${url} (HTTP ${response.status}). Run "npm run fetch:hand-model" before building.`);
+  }
+
+  // content-length is the encoded size, so it is missing or too small for
+  // compressed responses; only use it for progress, never to size the buffer
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body) {
+    onProgress(null);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  onProgress(total > 0 ? 0 : null);
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress(total > 0 ? Math.min(1, received / total) : null);
+  }
+
+  const model = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    model.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return model;
+};
+
+// Loads the WASM fileset and model, preferring the GPU delegate and falling
+// back to the CPU one when WebGL is unavailable or the GPU path fails.
+export const loadHandLandmarker = async (onStatus: (status: HandTrackingStatus) => void): Promise<HandLandmarker> => {
+  onStatus({ stage: 'wasm' });
+  let vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+  try {
+    vision = await FilesetResolver.forVisionTasks(`${MEDIAPIPE_ASSET_BASE}/wasm`);
+  } catch (error) {
+    console.error('Error loading MediaPipe WASM:', error);
+    throw new Error(`Could not load the hand tracking runtime from ${MEDIAPIPE_ASSET_BASE}/wasm.`);
+  }
+
+  onStatus({ stage: 'model', progress: 0 });
+  const model = await fetchModel(`${MEDIAPIPE_ASSET_BASE}/${HAND_MODEL_FILE}`, progress => {
+    onStatus({ stage: 'model', progress });
+  });
+
+  const delegates: HandTrackingDelegate[] = ['GPU', 'CPU'];
+  let lastError: unknown = null;
+  for (const delegate of delegates) {
+    onStatus({ stage: 'init', delegate });
+    try {
+      const landmarker = await HandLandmarker.createFromOptions(vision, {
+        baseOptions: {
+          modelAssetBuffer: model,
+          delegate
+        },
+        runningMode: 'VIDEO',
+        numHands: 2
+      });
+      onStatus({ stage: 'ready', delegate });
+      return landmarker;
+    } catch (error) {
+      console.warn(`Hand landmarker failed to start with the ${delegate} delegate:`, error);
+      lastError = error;
+    }
+  }
+
+  throw new Error(`Hand tracking could not start on this device${lastError instanceof Error ? `: ${lastError.message}` : '.'}`);
+};
@@ -0,0 +1,200 @@
+// Hand pose analysis on MediaPipe hand landmarks (21 points per hand).
+// Finger states come from joint bend angles, which don't change when the hand
+// is tilted, rotated or seen from the other side, unlike comparing raw Y values.
+
+export type Landmark = { x: number; y: number; z: number };
+
+export type FingerName = 'index' | 'middle' | 'ring' | 'pinky';
+export type Handedness = 'Left' | 'Right';
+export type HandednessPreference = 'auto' | Handedness;
+
+export type FingerStates = Record<FingerName, boolean>;
+
+export const FINGERS: FingerName[] = ['index', 'middle', 'ring', 'pinky'];
+
+// MCP, PIP, DIP and TIP landmark indices for each finger
+const FINGER_JOINTS: Record<FingerName, [number, number, number, number]> = {
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20],
+};
+
+const WRIST = 0;
+const MIDDLE_MCP = 9;
+
+export interface GestureCalibration {
+  handedness: HandednessPreference; // Which hand drives single-hand gestures
+  curlThresholds: Record<FingerName, number>; // Radians of total bend above which a finger counts as curled
+  rotateDeadZone: number; // Minimum wrist movement per frame (normalized) before ROTATE fires
+  zoomDeadZone: number; // Minimum change in two-hand spread per frame before ZOOM fires
+  palmHoldMs: number; // How long an open palm must be held to EXIT_FOCUS
+  calibratedAt: number | null; // Epoch ms of the last calibration, null when using defaults
+}
+
+export const DEFAULT_GESTURE_CALIBRATION: GestureCalibration = {
+  handedness: 'auto',
+  curlThresholds: { index: 1.5, middle: 1.5, ring: 1.5, pinky: 1.5 },
+  rotateDeadZone: 0.002,
+  zoomDeadZone: 0.005,
+  palmHoldMs: 1000,
+  calibratedAt: null,
+};
+
+const distance = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0));
+
+const bendAngle = (a: Landmark, b: Landmark, c: Landmark): number => {
+  const v1x = b.x - a.x, v1y = b.y - a.y, v1z = (b.z ?? 0) - (a.z ?? 0);
+  const v2x = c.x - b.x, v2y = c.y - b.y, v2z = (c.z ?? 0) - (b.z ?? 0);
+  const len = Math.hypot(v1x, v1y, v1z) * Math.hypot(v2x, v2y, v2z);
+  if (len === 0) return 0;
+  const cos = (v1x * v2x + v1y * v2y + v1z * v2z) / len;
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+};
+
+// Total bend of a finger in radians: ~0 when straight, ~3+ in a tight fist
+export const fingerCurl = (landmarks: Landmark[], finger: FingerName): number => {
+  const [mcp, pip, dip, tip] = FINGER_JOINTS[finger].map(i => landmarks[i]);
+  const wrist = landmarks[WRIST];
+  return bendAngle(wrist, mcp, pip) + bendAngle(mcp, pip, dip) + bendAngle(pip, dip, tip);
+};
+
+export const classifyFingers = (landmarks: Landmark[], calibration: GestureCalibration): FingerStates => {
+  const states = {} as FingerStates;
+  FINGERS.forEach(finger => {
+    states[finger] = fingerCurl(landmarks, finger) < calibration.curlThresholds[finger];
+  });
+  return states;
+};
+
+// Wrist to middle-finger knuckle; a scale reference independent of distance to the camera
+export const palmSize = (landmarks: Landmark[]): number => distance(landmarks[WRIST], landmarks[MIDDLE_MCP]);
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view).
+// The webcam frames are fed unmirrored, so the label names the opposite hand.
+export const resolveHandedness = (mediapipeLabel: string | undefined): Handedness | null => {
+  if (mediapipeLabel === 'Left') return 'Right';
+  if (mediapipeLabel === 'Right') return 'Left';
+  return null;
+};
+
+// Index of the hand that should drive single-hand gestures
+export const selectPrimaryHand = (handedness: (Handedness | null)[], preference: HandednessPreference): number => {
+  if (preference === 'auto') return 0;
+  const index = handedness.indexOf(preference);
+  return index === -1 ? 0 : index;
+};
+
+// --- Calibration ---
+
+export type CalibrationPose = 'palm' | 'fist' | 'point';
+
+export type CalibrationSamples = Record<CalibrationPose, Landmark[][]>;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Minimum separation between the open and curled means for a finger to be trusted
+const MIN_CURL_SEPARATION = 0.4;
+
+// Derives per-user thresholds from sampled open-palm, fist and pointing poses.
+// Throws with a readable message when the samples can't tell the poses apart.
+export const computeCalibration = (samples: CalibrationSamples, base: GestureCalibration): GestureCalibration => {
+  (['palm', 'fist', 'point'] as CalibrationPose[]).forEach(pose => {
+    if (samples[pose].length < 5) {
+      throw new Error(`Not enough frames captured for the ${pose} pose. Keep your hand in view.`);
+    }
+  });
+
+  const curlThresholds = { ...base.curlThresholds };
+  FINGERS.forEach(finger => {
+    // The pointing pose doubles as an extra open sample for the index and closed samples for the rest
+    const open = [...samples.palm, ...(finger === 'index' ? samples.point : [])].map(l => fingerCurl(l, finger));
+    const closed = [...samples.fist, ...(finger === 'index' ? [] : samples.point)].map(l => fingerCurl(l, finger));
+    const openMean = mean(open);
+    const closedMean = mean(closed);
+    if (closedMean - openMean < MIN_CURL_SEPARATION) {
+      throw new Error(`Couldn't tell your ${finger} finger's open and curled positions apart. Try again with clearer poses.`);
+    }
+    curlThresholds[finger] = (openMean + closedMean) / 2;
+  });
+
+  // Dead zones scale with how much the wrist jitters while the hand is held still
+  const wristSteps: number[] = [];
+  for (let i = 1; i < samples.palm.length; i++) {
+    const a = samples.palm[i - 1][WRIST];
+    const b = samples.palm[i][WRIST];
+    wristSteps.push(Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y)));
+  }
+  const jitter = mean(wristSteps);
+
+  return {
+    ...base,
+    curlThresholds,
+    rotateDeadZone: clamp(jitter * 3, 0.001, 0.01),
+    zoomDeadZone: clamp(jitter * 6, 0.0025, 0.02),
+    calibratedAt: Date.now(),
+  };
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'neon-solar-system:gesture-calibration';
+
+const HANDEDNESS_PREFERENCES: HandednessPreference[] = ['auto', 'Left', 'Right'];
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number => (
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+);
+
+// Per-field checks for stored calibrations, so a corrupted or outdated entry
+// can't feed NaN thresholds or an unknown hand into gesture detection
+const CALIBRATION_VALIDATORS: { [K in keyof GestureCalibration]: (value: unknown) => value is GestureCalibration[K] } = {
+  handedness: (value): value is HandednessPreference => HANDEDNESS_PREFERENCES.includes(value as HandednessPreference),
+  curlThresholds: (value): value is Record<FingerName, number> => (
+    typeof value === 'object' && value !== null
+    && FINGERS.every(finger => isNumberIn((value as Record<string, unknown>)[finger], 0, Math.PI * 3))
+  ),
+  rotateDeadZone: (value): value is number => isNumberIn(value, 0, 1),
+  zoomDeadZone: (value): value is number => isNumberIn(value, 0, 1),
+  palmHoldMs: (value): value is number => isNumberIn(value, 0, 10000),
+  calibratedAt: (value): value is number | null => value === null || isNumberIn(value, 0, Number.MAX_SAFE_INTEGER),
+};
+
+// Keeps every valid field and falls back to the default for the rest
+export const validateGestureCalibration = (raw: Record<string, unknown>): GestureCalibration => {
+  const calibration = { ...DEFAULT_GESTURE_CALIBRATION };
+  (Object.keys(CALIBRATION_VALIDATORS) as (keyof GestureCalibration)[]).forEach(key => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (CALIBRATION_VALIDATORS[key](value)) {
+      (calibration as Record<string, unknown>)[key] = value;
+    } else {
+      console.warn(`Ignoring invalid saved gesture calibration ${key}:`, value);
+    }
+  });
+  return calibration;
+};
+
+export const loadGestureCalibration = (): GestureCalibration => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_GESTURE_CALIBRATION;
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('unrecognised format');
+    }
+    return validateGestureCalibration(parsed as Record<string, unknown>);
+  } catch (error) {
+    console.warn('Ignoring unreadable gesture calibration:', error);
+    return DEFAULT_GESTURE_CALIBRATION;
+  }
+};
+
+export const saveGestureCalibration = (calibration: GestureCalibration) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+  } catch (error) {
+    console.warn('Could not save gesture calibration:', error);
+  }
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SOLAR_SYSTEM } from '../constants';
+import { PlanetData } from '../types';
+import { focusIndexForKey, focusKeyBodies } from './keymap';
+import { systemBodies } from './systemLoader';
+
+const focusedBy = (bodies: PlanetData[], code: string) => {
+  const index = focusIndexForKey(code);
+  return index === null ? undefined : focusKeyBodies(bodies)[index]?.id;
+};
+
+describe('focus keys', () => {
+  const bodies = systemBodies(SOLAR_SYSTEM);
+
+  it('focus the star and then each planet of the built-in system', () => {
+    expect(focusedBy(bodies, 'Digit1')).toBe('sun');
+    expect(focusedBy(bodies, 'Digit2')).toBe('mercury');
+    expect(focusedBy(bodies, 'Numpad4')).toBe('earth');
+    expect(focusedBy(bodies, 'Digit9')).toBe('neptune');
+  });
+
+  it('skip dwarf planets and comets', () => {
+    const categories = focusKeyBodies(bodies).map(b => b.category ?? 'planet');
+    expect(categories).toHaveLength(9);
+    expect(categories).not.toContain('dwarf');
+    expect(categories).not.toContain('comet');
+  });
+
+  it('ignore other keys', () => {
+    expect(focusedBy(bodies, 'Digit0')).toBeUndefined();
+    expect(focusedBy(bodies, 'KeyW')).toBeUndefined();
+  });
+});
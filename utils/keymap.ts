@@ -0,0 +1,146 @@
+import { PlanetData } from '../types';
+
+// Keyboard bindings. Keys are KeyboardEvent.code values, so bindings stay on the
+// same physical keys whatever the keyboard layout. Each action can have several keys.
+
+export type KeyAction =
+  | 'forward' | 'back' | 'left' | 'right' | 'up' | 'down'
+  | 'yawLeft' | 'yawRight' | 'pitchUp' | 'pitchDown' | 'rollLeft' | 'rollRight'
+  | 'boost' | 'resetView'
+  | 'speedUp' | 'speedDown' | 'toggleUI' | 'toggleSettings' | 'showHelp';
+
+export type Keymap = Record<KeyAction, string[]>;
+
+// Handled by the camera controller in Keyboard mode; the rest work in any mode
+const FLIGHT_ACTIONS: ReadonlySet<KeyAction> = new Set<KeyAction>([
+  'forward', 'back', 'left', 'right', 'up', 'down',
+  'yawLeft', 'yawRight', 'pitchUp', 'pitchDown', 'rollLeft', 'rollRight',
+  'boost', 'resetView'
+]);
+
+export const isFlightAction = (action: KeyAction) => FLIGHT_ACTIONS.has(action);
+
+export const KEY_ACTION_GROUPS: { title: string; actions: { action: KeyAction; label: string }[] }[] = [
+  {
+    title: 'Flight (Keyboard mode)',
+    actions: [
+      { action: 'forward', label: 'Forward' },
+      { action: 'back', label: 'Back' },
+      { action: 'left', label: 'Strafe left' },
+      { action: 'right', label: 'Strafe right' },
+      { action: 'up', label: 'Rise' },
+      { action: 'down', label: 'Sink' },
+      { action: 'yawLeft', label: 'Turn left' },
+      { action: 'yawRight', label: 'Turn right' },
+      { action: 'pitchUp', label: 'Pitch up' },
+      { action: 'pitchDown', label: 'Pitch down' },
+      { action: 'rollLeft', label: 'Roll left' },
+      { action: 'rollRight', label: 'Roll right' },
+      { action: 'boost', label: 'Boost (hold)' },
+      { action: 'resetView', label: 'Reset view' },
+    ]
+  },
+  {
+    title: 'Anywhere',
+    actions: [
+      { action: 'speedUp', label: 'Faster time' },
+      { action: 'speedDown', label: 'Slower time' },
+      { action: 'toggleUI', label: 'Show / hide interface' },
+      { action: 'toggleSettings', label: 'Configuration panel' },
+      { action: 'showHelp', label: 'Keyboard shortcuts' },
+    ]
+  }
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  forward: ['KeyW'],
+  back: ['KeyS'],
+  left: ['KeyA'],
+  right: ['KeyD'],
+  up: ['KeyR'],
+  down: ['KeyF'],
+  yawLeft: ['ArrowLeft'],
+  yawRight: ['ArrowRight'],
+  pitchUp: ['ArrowUp'],
+  pitchDown: ['ArrowDown'],
+  rollLeft: ['KeyQ'],
+  rollRight: ['KeyE'],
+  boost: ['ShiftLeft', 'ShiftRight'],
+  resetView: ['Space'],
+  speedUp: ['Equal', 'NumpadAdd'],
+  speedDown: ['Minus', 'NumpadSubtract'],
+  toggleUI: ['KeyH'],
+  toggleSettings: ['KeyO'],
+  showHelp: ['Slash'],
+};
+
+// Number keys 1-9 focus the star and the planets in order; they can't be rebound
+export const FOCUS_KEY_COUNT = 9;
+
+export const focusIndexForKey = (code: string): number | null => {
+  const match = /^(?:Digit|Numpad)([1-9])$/.exec(code);
+  return match ? Number(match[1]) - 1 : null;
+};
+
+// The body each number key focuses; bodies without a category are planets
+export const focusKeyBodies = (bodies: PlanetData[]): PlanetData[] => (
+  bodies.filter(b => b.category === 'star' || (b.category ?? 'planet') === 'planet').slice(0, FOCUS_KEY_COUNT)
+);
+
+const isReservedKey = (code: string) => focusIndexForKey(code) !== null || code === 'Escape';
+
+export const actionForKey = (keymap: Keymap, code: string): KeyAction | null => (
+  (Object.keys(keymap) as KeyAction[]).find(action => keymap[action].includes(code)) ?? null
+);
+
+// Binds `code` to `action` alone, taking it from any action that had it.
+// Returns the keymap unchanged for keys that can't be bound.
+export const rebindKey = (keymap: Keymap, action: KeyAction, code: string): Keymap => {
+  if (isReservedKey(code)) return keymap;
+  const rebound = { ...keymap };
+  (Object.keys(rebound) as KeyAction[]).forEach(other => {
+    rebound[other] = rebound[other].filter(key => key !== code);
+  });
+  rebound[action] = [code];
+  return rebound;
+};
+
+export const isKeymap = (value: unknown): value is Keymap => (
+  !!value && typeof value === 'object'
+  && (Object.keys(DEFAULT_KEYMAP) as KeyAction[]).every(action => {
+    const keys = (value as Record<string, unknown>)[action];
+    return Array.isArray(keys) && keys.every(key => typeof key === 'string' && !isReservedKey(key));
+  })
+);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'Space',
+  ShiftLeft: 'Shift',
+  ShiftRight: 'Right Shift',
+  Equal: '+',
+  Minus: '-',
+  NumpadAdd: 'Num +',
+  NumpadSubtract: 'Num -',
+  Slash: '?',
+  Backquote: '`',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Backslash: '\\',
+};
+
+export const keyLabel = (code: string): string => (
+  KEY_LABELS[code] ?? code.replace(/^Key|^Digit/, '').replace(/^Numpad/, 'Num ')
+);
+
+// Keystrokes typed into a panel's form fields aren't shortcuts
+export const isTypingTarget = (target: EventTarget | null) => (
+  target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement
+);
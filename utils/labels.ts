@@ -0,0 +1,86 @@
+import { ParticleDensity, PlanetData } from '../types';
+
+// Screen-space body labels: which bodies get one, and a greedy layout that
+// keeps them from overlapping. Positions come from the scene each frame.
+
+// Where a body lands on screen, written by the scene each frame for the DOM labels
+export interface ProjectedBody {
+  x: number; // CSS pixels from the canvas' top-left
+  y: number;
+  radius: number; // Projected body radius in CSS pixels
+  visible: boolean; // In front of the camera and inside the view
+  fade: number; // 1 up close, lower as the body gets further from the camera
+  distanceAU: number; // From the camera
+}
+
+export interface LabelTarget {
+  id: string;
+  name: string;
+  rank: number; // Higher ranks claim space first
+}
+
+const CATEGORY_RANK = { star: 4, planet: 3, dwarf: 2, comet: 2 };
+const MOON_RANK = 1;
+
+// Label density follows particle quality: planets only at LOW, moons only at HIGH
+export const labelTargets = (bodies: PlanetData[], density: ParticleDensity): LabelTarget[] => {
+  const targets: LabelTarget[] = [];
+  bodies.forEach(body => {
+    const category = body.category ?? 'planet';
+    if (density === 'LOW' && (category === 'dwarf' || category === 'comet')) return;
+    targets.push({ id: body.id, name: body.name, rank: CATEGORY_RANK[category] });
+    if (density === 'HIGH') {
+      body.moonCatalog?.forEach(moon => targets.push({ id: moon.id, name: moon.name, rank: MOON_RANK }));
+    }
+  });
+  return targets;
+};
+
+export interface LabelBox {
+  id: string;
+  width: number;
+  height: number;
+  priority: number;
+  anchor: ProjectedBody;
+}
+
+export interface LabelPlacement {
+  x: number; // Top-left of the label
+  y: number;
+}
+
+const LABEL_GAP = 4; // px between a body's edge and its label
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const overlaps = (a: Rect, b: Rect) => (
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+);
+
+// Places labels in priority order, each at the first free spot to the right,
+// left, above or below its body. Labels with no free spot are left out.
+export const layoutLabels = (boxes: LabelBox[]): Map<string, LabelPlacement> => {
+  const placed: Rect[] = [];
+  const placements = new Map<string, LabelPlacement>();
+
+  [...boxes].sort((a, b) => b.priority - a.priority).forEach(box => {
+    const { x, y, radius } = box.anchor;
+    const offset = radius + LABEL_GAP;
+    const candidates: LabelPlacement[] = [
+      { x: x + offset, y: y - box.height / 2 },
+      { x: x - offset - box.width, y: y - box.height / 2 },
+      { x: x - box.width / 2, y: y - offset - box.height },
+      { x: x - box.width / 2, y: y + offset },
+    ];
+    const spot = candidates.find(c => !placed.some(p => overlaps(p, { ...c, width: box.width, height: box.height })));
+    if (!spot) return;
+    placed.push({ ...spot, width: box.width, height: box.height });
+    placements.set(box.id, spot);
+  });
+  return placements;
+};
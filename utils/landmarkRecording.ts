@@ -0,0 +1,142 @@
+import { LandmarkFrame } from './gestureRecognizer';
+import { Handedness, Landmark } from './handPose';
+import { downloadBlob } from './capture';
+
+// JSON recordings of MediaPipe landmark streams, and a replay source that
+// feeds them back through the gesture pipeline in place of the camera.
+
+export const RECORDING_VERSION = 1;
+
+export interface LandmarkRecording {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  frames: LandmarkFrame[]; // Frame times are relative to the first frame
+}
+
+export interface LandmarkRecorder {
+  addFrame: (frame: LandmarkFrame) => void;
+  frameCount: () => number;
+  finish: () => LandmarkRecording;
+}
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  const frames: LandmarkFrame[] = [];
+  let startTime: number | null = null;
+
+  return {
+    addFrame: (frame) => {
+      if (startTime === null) startTime = frame.time;
+      frames.push({
+        time: frame.time - startTime,
+        // Keep only the coordinates; MediaPipe objects carry extra fields
+        landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+        handedness: [...frame.handedness],
+      });
+    },
+    frameCount: () => frames.length,
+    finish: () => ({
+      version: RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      frames,
+    }),
+  };
+};
+
+const HAND_LANDMARKS = 21;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  !!value && typeof value === 'object' && !Array.isArray(value)
+);
+
+const isHandedness = (value: unknown): value is Handedness | null => value === null || value === 'Left' || value === 'Right';
+
+const isLandmark = (value: unknown): value is Landmark => (
+  isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number'
+);
+
+const isHand = (value: unknown): value is Landmark[] => (
+  Array.isArray(value) && value.length === HAND_LANDMARKS && value.every(isLandmark)
+);
+
+const parseFrame = (raw: unknown, i: number): LandmarkFrame => {
+  if (!isRecord(raw) || typeof raw.time !== 'number') throw new Error(`Frame ${i} is missing a numeric time.`);
+  const { time, landmarks, handedness } = raw;
+  if (!Array.isArray(landmarks) || !landmarks.every(isHand)) {
+    throw new Error(`Frame ${i} must contain hands of ${HAND_LANDMARKS} {x, y, z} landmarks.`);
+  }
+  if (!Array.isArray(handedness) || handedness.length !== landmarks.length || !handedness.every(isHandedness)) {
+    throw new Error(`Frame ${i} needs one handedness entry ("Left", "Right" or null) per hand.`);
+  }
+  return {
+    time,
+    landmarks: landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+    handedness,
+  };
+};
+
+// Validates untrusted JSON; throws with the first problem found
+export const parseLandmarkRecording = (json: string): LandmarkRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording is not valid JSON.');
+  }
+  const version = isRecord(data) ? data.version : undefined;
+  if (!isRecord(data) || version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${version}. Expected ${RECORDING_VERSION}.`);
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0) {
+    throw new Error('Recording has no frames.');
+  }
+  return {
+    version: RECORDING_VERSION,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    frames: data.frames.map(parseFrame),
+  };
+};
+
+export const downloadLandmarkRecording = (recording: LandmarkRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  downloadBlob(blob, `landmarks-${recording.recordedAt.replace(/[:.]/g, '-')}.json`);
+};
+
+// Plays frames back with their recorded timing. Frame times keep increasing
+// across loops so hold timers in the recognizer behave as they did live.
+export const startLandmarkReplay = (
+  recording: LandmarkRecording,
+  onFrame: (frame: LandmarkFrame) => void,
+  options: { loop?: boolean; onEnd?: () => void } = {}
+): (() => void) => {
+  const frames = recording.frames;
+  const duration = frames[frames.length - 1].time;
+  let index = 0;
+  let start = performance.now();
+  let offset = 0; // Accumulated duration of completed loops
+  let handle = 0;
+
+  const tick = () => {
+    const elapsed = performance.now() - start;
+    while (index < frames.length && frames[index].time <= elapsed) {
+      const frame = frames[index];
+      onFrame({ ...frame, time: offset + frame.time });
+      index++;
+    }
+
+    if (index >= frames.length) {
+      if (!options.loop) {
+        options.onEnd?.();
+        return;
+      }
+      // An empty frame at the seam resets tracking so the jump back isn't read as motion
+      offset += duration;
+      onFrame({ time: offset, landmarks: [], handedness: [] });
+      start = performance.now();
+      index = 0;
+    }
+    handle = requestAnimationFrame(tick);
+  };
+
+  handle = requestAnimationFrame(tick);
+  return () => cancelAnimationFrame(handle);
+};
@@ -0,0 +1,78 @@
+import { KM_PER_AU } from './scaleModes';
+import { MI_PER_KM, UnitSystem } from './units';
+
+// Reference layers drawn over the scene: body labels, motion trails, predicted
+// paths, an ecliptic grid, spin axes and a scale bar. Each can be switched on its own.
+
+export interface LayerSettings {
+  labels: boolean;
+  labelDistances: boolean; // Distance from the camera after each label's name
+  trails: boolean;
+  trailLength: number; // Fraction of each body's orbit left behind it
+  predictedPaths: boolean;
+  predictionDays: number; // How far ahead the predicted paths reach
+  eclipticGrid: boolean;
+  axes: boolean;
+  scaleBar: boolean;
+}
+
+export const DEFAULT_LAYERS: LayerSettings = {
+  labels: true,
+  labelDistances: false,
+  trails: false,
+  trailLength: 0.1,
+  predictedPaths: false,
+  predictionDays: 365,
+  eclipticGrid: false,
+  axes: false,
+  scaleBar: true,
+};
+
+export type LayerToggle = 'labels' | 'labelDistances' | 'trails' | 'predictedPaths' | 'eclipticGrid' | 'axes' | 'scaleBar';
+
+export const LAYER_LABELS: Record<LayerToggle, string> = {
+  labels: 'Body labels',
+  labelDistances: 'Label distances',
+  trails: 'Orbit trails',
+  predictedPaths: 'Predicted paths',
+  eclipticGrid: 'Ecliptic grid',
+  axes: 'Spin axes',
+  scaleBar: 'Scale bar',
+};
+
+export const TRAIL_LENGTHS = [0.05, 0.1, 0.25, 0.5];
+export const PREDICTION_DAYS = [30, 90, 365, 1825];
+
+// Rings of the ecliptic grid, in AU. Only those inside the system's outermost orbit are drawn.
+export const GRID_RING_AU = [0.5, 1, 2, 5, 10, 20, 30, 50, 100];
+
+// Latest scale bar reading, written by the scene each frame and read by the DOM bar
+export interface ScaleBarState {
+  auPerPixel: number; // At the distance of the point the camera looks at; 0 before the first frame
+  approximate: boolean; // Distances are only to scale in the True scale mode
+}
+
+// Largest 1, 2 or 5 × 10ⁿ that fits in `max`
+const roundDown125 = (max: number): number => {
+  const power = Math.pow(10, Math.floor(Math.log10(max)));
+  return ([5, 2, 1].find(step => step * power <= max) ?? 1) * power;
+};
+
+// A round distance no longer than `maxAU`: in AU from a tenth of one, in km or miles below that
+export const scaleBarLength = (maxAU: number, units: UnitSystem): { au: number; label: string } => {
+  if (maxAU >= 0.1) {
+    const au = roundDown125(maxAU);
+    return { au, label: `${au.toLocaleString('en-US')} AU` };
+  }
+  const perAU = KM_PER_AU * (units === 'METRIC' ? 1 : MI_PER_KM);
+  const length = roundDown125(maxAU * perAU);
+  return { au: length / perAU, label: `${length.toLocaleString('en-US')} ${units === 'METRIC' ? 'km' : 'mi'}` };
+};
+
+export const isLayerSettings = (value: unknown): value is LayerSettings => {
+  const layers = value as LayerSettings;
+  return !!layers && typeof layers === 'object'
+    && (Object.keys(LAYER_LABELS) as LayerToggle[]).every(key => typeof layers[key] === 'boolean')
+    && TRAIL_LENGTHS.includes(layers.trailLength)
+    && PREDICTION_DAYS.includes(layers.predictionDays);
+};
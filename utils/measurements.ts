@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import { PlanetData } from '../types';
+import { orbitalPositionAtDate } from './orbits';
+import { KM_PER_AU } from './scaleModes';
+
+// Distances between bodies for the measurement tool. Separations come from the
+// same orbital elements and date the scene places bodies with, but in true AU,
+// so they stay correct whichever scale mode is drawing them.
+
+export interface Measurement {
+  from: string; // Body ids; moons aren't measurable, their orbits are only illustrative
+  to: string;
+}
+
+export const SPEED_OF_LIGHT_KM_S = 299792.458;
+
+export const measurementId = (measurement: Measurement) => `${measurement.from}:${measurement.to}`;
+
+// From the focused body (or the first planet) to the star
+export const defaultMeasurement = (bodies: PlanetData[], focusedBody: string | null): Measurement => {
+  const star = bodies[0];
+  const focused = bodies.find(b => b.id === focusedBody && b !== star);
+  return { from: (focused ?? bodies[1] ?? star).id, to: star.id };
+};
+
+// Heliocentric position in AU; bodies without an orbit sit at the origin
+export const heliocentricPosition = (body: PlanetData, daysSinceEpoch: number, target: THREE.Vector3): THREE.Vector3 => (
+  body.orbit && body.distance > 0
+    ? orbitalPositionAtDate(body.orbit, daysSinceEpoch, body.orbit.semiMajorAxis, target)
+    : target.set(0, 0, 0)
+);
+
+export interface Separation {
+  au: number;
+  lightSeconds: number; // One-way light travel time
+}
+
+const fromPosition = new THREE.Vector3();
+const toPosition = new THREE.Vector3();
+
+export const measureSeparation = (bodies: PlanetData[], measurement: Measurement, daysSinceEpoch: number): Separation | null => {
+  const from = bodies.find(b => b.id === measurement.from);
+  const to = bodies.find(b => b.id === measurement.to);
+  if (!from || !to) return null;
+  const au = heliocentricPosition(from, daysSinceEpoch, fromPosition).distanceTo(heliocentricPosition(to, daysSinceEpoch, toPosition));
+  return { au, lightSeconds: (au * KM_PER_AU) / SPEED_OF_LIGHT_KM_S };
+};
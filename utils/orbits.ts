@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { OrbitalElements } from '../types';
+
+const DEG2RAD = Math.PI / 180;
+const TWO_PI = Math.PI * 2;
+const DAYS_PER_YEAR = 365.25;
+
+// Wraps an angle into [-PI, PI)
+export const wrapAngle = (angle: number): number => {
+  const wrapped = ((angle + Math.PI) % TWO_PI + TWO_PI) % TWO_PI;
+  return wrapped - Math.PI;
+};
+
+// Solves Kepler's equation M = E - e * sin(E) for the eccentric anomaly E (radians).
+// Newton-Raphson converges in a handful of steps for every bound orbit; starting
+// from ±PI keeps it stable for comet-like eccentricities.
+export const solveKepler = (
+  meanAnomaly: number,
+  eccentricity: number,
+  tolerance = 1e-8,
+  maxIterations = 30
+): number => {
+  const M = wrapAngle(meanAnomaly);
+  let E = eccentricity < 0.8 ? M : (M < 0 ? -Math.PI : Math.PI);
+
+  for (let i = 0; i < maxIterations; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return E;
+};
+
+// Mean anomaly (radians) after the body has swept `angleSinceEpoch` radians of mean motion
+export const meanAnomalyAt = (elements: OrbitalElements, angleSinceEpoch: number): number => {
+  return elements.meanAnomalyAtEpoch * DEG2RAD + angleSinceEpoch;
+};
+
+// Orbital period in days; a solar-mass primary is assumed unless the elements carry their own period
+export const orbitalPeriod = (elements: OrbitalElements): number => {
+  return elements.period ?? DAYS_PER_YEAR * Math.pow(elements.semiMajorAxis, 1.5);
+};
+
+// Mean anomaly (radians) at a given number of days since J2000
+export const meanAnomalyAtDate = (elements: OrbitalElements, daysSinceEpoch: number): number => {
+  return meanAnomalyAt(elements, (TWO_PI * daysSinceEpoch) / orbitalPeriod(elements));
+};
+
+// In the artistic scale comets use a radially compressed orbit (r' = a·(r/a)^exponent)
+// so that perihelion clears the star and aphelion stays on screen.
+export const COMET_RADIAL_EXPONENT = 0.4;
+
+// Places a point on the orbit given its eccentric anomaly.
+// The ellipse is built in the orbital plane, rotated by ω, i and Ω into ecliptic
+// coordinates, then mapped to the scene where the ecliptic is the XZ plane and
+// +Y points to the ecliptic north pole (so prograde orbits run counter-clockwise from above).
+export const positionFromEccentricAnomaly = (
+  elements: OrbitalElements,
+  eccentricAnomaly: number,
+  scale: number,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const e = elements.eccentricity;
+  const xOrbit = Math.cos(eccentricAnomaly) - e;
+  const yOrbit = Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly);
+
+  const cosW = Math.cos(elements.argumentOfPerihelion * DEG2RAD);
+  const sinW = Math.sin(elements.argumentOfPerihelion * DEG2RAD);
+  const cosO = Math.cos(elements.longitudeOfAscendingNode * DEG2RAD);
+  const sinO = Math.sin(elements.longitudeOfAscendingNode * DEG2RAD);
+  const cosI = Math.cos(elements.inclination * DEG2RAD);
+  const sinI = Math.sin(elements.inclination * DEG2RAD);
+
+  const xEcl = xOrbit * (cosW * cosO - sinW * sinO * cosI) - yOrbit * (sinW * cosO + cosW * sinO * cosI);
+  const yEcl = xOrbit * (cosW * sinO + sinW * cosO * cosI) + yOrbit * (cosW * cosO * cosI - sinW * sinO);
+  const zEcl = xOrbit * (sinW * sinI) + yOrbit * (cosW * sinI);
+
+  return target.set(xEcl * scale, zEcl * scale, -yEcl * scale);
+};
+
+// Heliocentric distance in AU at a given eccentric anomaly
+export const radiusAtEccentricAnomaly = (elements: OrbitalElements, eccentricAnomaly: number): number => {
+  return elements.semiMajorAxis * (1 - elements.eccentricity * Math.cos(eccentricAnomaly));
+};
+
+// Scene position of a body at the given mean anomaly (radians).
+// `scale` is the scene-space length of the semi-major axis.
+export const orbitalPosition = (
+  elements: OrbitalElements,
+  meanAnomaly: number,
+  scale: number,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  const E = solveKepler(meanAnomaly, elements.eccentricity);
+  return positionFromEccentricAnomaly(elements, E, scale, target);
+};
+
+// Scene position of a body at a given number of days since J2000
+export const orbitalPositionAtDate = (
+  elements: OrbitalElements,
+  daysSinceEpoch: number,
+  scale: number,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 => {
+  return orbitalPosition(elements, meanAnomalyAtDate(elements, daysSinceEpoch), scale, target);
+};
+
+// Closed polyline of the full orbit, sampled evenly in eccentric anomaly so that
+// highly eccentric orbits keep detail near perihelion.
+export const buildOrbitPath = (elements: OrbitalElements, scale: number, segments = 128): Float32Array => {
+  const positions = new Float32Array((segments + 1) * 3);
+  const point = new THREE.Vector3();
+  for (let i = 0; i <= segments; i++) {
+    positionFromEccentricAnomaly(elements, (i / segments) * TWO_PI, scale, point);
+    positions[i * 3] = point.x;
+    positions[i * 3 + 1] = point.y;
+    positions[i * 3 + 2] = point.z;
+  }
+  return positions;
+};
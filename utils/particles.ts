@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import {
+  LOG_DISTANCE_KNEE,
+  LOG_DISTANCE_SCALE,
+  REALISTIC_UNITS_PER_AU,
+  SCALE_MODES,
+  ScaleTransition
+} from './scaleModes';
+
+// Particle shells, rings and belts laid out on the GPU. Every particle system
+// draws from one seeded buffer of random triples; a vertex shader injected into
+// PointsMaterial turns those into its shape, and uniforms move it. Changing
+// density, scale mode or time never regenerates or re-uploads a particle.
+//   SHELL  the surface of a sphere, for planet bodies
+//   RING   a flat annulus in the XY plane, inner edge orbiting fastest
+//   CLOUD  a thick, tilted torus, for uncatalogued moons
+//   BELT   an annulus placed in AU, so it follows scale-mode morphs
+
+export type ParticleLayout = 'SHELL' | 'RING' | 'CLOUD' | 'BELT';
+
+const SEED = 0x5eed;
+const MIN_SEED_CAPACITY = 4096;
+
+// Mulberry32: small, fast and the same sequence on every load
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+let seeds = new Float32Array(0);
+const geometries = new Map<number, THREE.BufferGeometry>();
+
+// One geometry per particle count, shared by every system that size. Counts
+// share a prefix of the same random sequence, so a system that grows or shrinks
+// with the density setting keeps the particles it already had.
+export const particleGeometry = (count: number): THREE.BufferGeometry => {
+  let geometry = geometries.get(count);
+  if (geometry) return geometry;
+  if (seeds.length < count * 3) {
+    const random = seededRandom(SEED);
+    seeds = Float32Array.from({ length: Math.max(count, MIN_SEED_CAPACITY, seeds.length / 3 * 2) * 3 }, random);
+  }
+  geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(seeds.subarray(0, count * 3), 3));
+  geometries.set(count, geometry);
+  return geometry;
+};
+
+// Shifts the shared seeds per body (a wrapping shift of the unit cube keeps them
+// uniform), so two planets of the same size don't wear the same pattern
+export const particleSeedOffset = (id: string): THREE.Vector3 => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = Math.imul(hash ^ id.charCodeAt(i), 0x9e3779b1);
+  const random = seededRandom(hash);
+  return new THREE.Vector3(random(), random(), random());
+};
+
+// Seed-space positions mean nothing to the raycaster; bodies take clicks on their meshes
+export const NO_RAYCAST = () => {};
+
+export interface ParticleUniforms {
+  uSeed: THREE.IUniform<THREE.Vector3>;
+  uAngle: THREE.IUniform<number>; // Spin about the layout's axis, in radians
+  uInner: THREE.IUniform<number>; // Radius of a shell, or the inner edge of the others
+  uOuter: THREE.IUniform<number>;
+  uThickness: THREE.IUniform<number>; // Belt height in artistic units
+  uInnerAU: THREE.IUniform<number>; // Belt edges for the physically based modes
+  uOuterAU: THREE.IUniform<number>;
+  uModeWeights: THREE.IUniform<THREE.Vector3>; // Artistic, logarithmic and realistic blend
+}
+
+const LAYOUT_VERTEX: Record<ParticleLayout, string> = {
+  SHELL: /* glsl */ `
+    float theta = seed.x * 6.2831853;
+    float phi = acos(2.0 * seed.y - 1.0);
+    vec3 transformed = rotateParticle(uInner * vec3(sin(phi) * cos(theta), sin(phi) * sin(theta), cos(phi)));
+  `,
+  RING: /* glsl */ `
+    float r = mix(uInner, uOuter, seed.y);
+    float angle = seed.x * 6.2831853 + uAngle * pow(r / uInner, -1.5);
+    vec3 transformed = vec3(cos(angle) * r, sin(angle) * r, 0.0);
+  `,
+  CLOUD: /* glsl */ `
+    float angle = seed.x * 6.2831853;
+    float r = mix(uInner, uOuter, seed.y);
+    float tilt = (seed.z - 0.5) * 0.6; // Irregular moons scatter well off the equator
+    vec3 transformed = rotateParticle(vec3(cos(angle) * cos(tilt), sin(tilt), sin(angle) * cos(tilt)) * r);
+  `,
+  BELT: /* glsl */ `
+    float angle = seed.x * 6.2831853;
+    float artistic = mix(uInner, uOuter, seed.y);
+    float au = mix(uInnerAU, uOuterAU, seed.y);
+    float r = uModeWeights.x * artistic
+      + uModeWeights.y * ${LOG_DISTANCE_SCALE.toFixed(4)} * log(1.0 + au / ${LOG_DISTANCE_KNEE.toFixed(4)})
+      + uModeWeights.z * au * ${REALISTIC_UNITS_PER_AU.toFixed(4)};
+    float height = (seed.z - 0.5) * uThickness * (r / artistic);
+    vec3 transformed = rotateParticle(vec3(cos(angle) * r, height, sin(angle) * r));
+  `,
+};
+
+const VERTEX_PARS = /* glsl */ `
+  uniform vec3 uSeed;
+  uniform float uAngle;
+  uniform float uInner;
+  uniform float uOuter;
+  uniform float uThickness;
+  uniform float uInnerAU;
+  uniform float uOuterAU;
+  uniform vec3 uModeWeights;
+
+  // Same sense as Object3D.rotation.y
+  vec3 rotateParticle(vec3 p) {
+    float c = cos(uAngle);
+    float s = sin(uAngle);
+    return vec3(c * p.x + s * p.z, p.y, c * p.z - s * p.x);
+  }
+`;
+
+export interface ParticleShader {
+  uniforms: ParticleUniforms;
+  onBeforeCompile: (shader: THREE.WebGLProgramParametersWithUniforms) => void;
+  customProgramCacheKey: () => string;
+}
+
+// Hooks for a <pointsMaterial>; size, colour, opacity and blending stay ordinary material props
+export const createParticleShader = (layout: ParticleLayout, seed = new THREE.Vector3()): ParticleShader => {
+  const uniforms: ParticleUniforms = {
+    uSeed: { value: seed },
+    uAngle: { value: 0 },
+    uInner: { value: 1 },
+    uOuter: { value: 1 },
+    uThickness: { value: 0 },
+    uInnerAU: { value: 1 },
+    uOuterAU: { value: 1 },
+    uModeWeights: { value: new THREE.Vector3(1, 0, 0) },
+  };
+  return {
+    uniforms,
+    onBeforeCompile: (shader) => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${VERTEX_PARS}`)
+        .replace('#include <begin_vertex>', `vec3 seed = fract(position + uSeed);\n${LAYOUT_VERTEX[layout]}`);
+    },
+    customProgramCacheKey: () => `particles:${layout}`,
+  };
+};
+
+// The transition's current weight for each mode, in SCALE_MODES order as the belt shader expects
+export const scaleModeWeights = (transition: ScaleTransition, target: THREE.Vector3): THREE.Vector3 => target.set(
+  ...SCALE_MODES.map(mode => transition.blend(m => (m === mode ? 1 : 0))) as [number, number, number]
+);
@@ -0,0 +1,137 @@
+import { ControlMode, ParticleDensity } from '../types';
+import { SCALE_MODES, ScaleMode } from './scaleModes';
+import { UnitSystem } from './units';
+import { DEFAULT_KEYMAP, Keymap, isKeymap } from './keymap';
+import { DEFAULT_GAMEPAD_MAPPING, GamepadMapping, isGamepadMapping } from './gamepad';
+import { DEFAULT_LAYERS, LayerSettings, isLayerSettings } from './layers';
+
+// User preferences: the defaults for every persisted setting, and versioned
+// localStorage persistence with migrations and per-field validation.
+
+export interface Preferences {
+  controlMode: ControlMode;
+  simulationSpeed: number; // Time scale; negative runs backwards
+  bloomIntensity: number;
+  particleDensity: ParticleDensity;
+  showUI: boolean;
+  scaleMode: ScaleMode;
+  unitSystem: UnitSystem;
+  layers: LayerSettings;
+  keymap: Keymap;
+  gamepadMapping: GamepadMapping;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  controlMode: ControlMode.MOUSE,
+  simulationSpeed: 1,
+  bloomIntensity: 1.5,
+  particleDensity: 'MEDIUM',
+  showUI: true,
+  scaleMode: 'ARTISTIC',
+  unitSystem: 'METRIC',
+  layers: DEFAULT_LAYERS,
+  keymap: DEFAULT_KEYMAP,
+  gamepadMapping: DEFAULT_GAMEPAD_MAPPING,
+};
+
+export const PREFERENCES_VERSION = 2;
+const STORAGE_KEY = 'neon-solar-system:preferences';
+
+interface StoredPreferences {
+  version: number;
+  preferences: Record<string, unknown>;
+}
+
+type Migration = (preferences: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades stored data from version n to n + 1. When a field is
+// renamed, re-typed or re-scaled, bump PREFERENCES_VERSION and add a step here.
+const MIGRATIONS: Record<number, Migration> = {
+  // Body labels joined the layer settings
+  1: (preferences) => {
+    const layers = preferences.layers;
+    if (!layers || typeof layers !== 'object') return preferences;
+    return {
+      ...preferences,
+      layers: { labels: DEFAULT_LAYERS.labels, labelDistances: DEFAULT_LAYERS.labelDistances, ...layers }
+    };
+  },
+};
+
+const migrate = (stored: StoredPreferences): Record<string, unknown> => {
+  let { version, preferences } = stored;
+  while (version < PREFERENCES_VERSION) {
+    const step = MIGRATIONS[version];
+    if (step) preferences = step(preferences);
+    version++;
+  }
+  return preferences;
+};
+
+const oneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T => (
+  typeof value === 'string' && (options as readonly string[]).includes(value)
+);
+const numberIn = (min: number, max: number) => (value: unknown): value is number => (
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const VALIDATORS: { [K in keyof Preferences]: (value: unknown) => value is Preferences[K] } = {
+  controlMode: oneOf(Object.values(ControlMode)),
+  simulationSpeed: numberIn(-5, 5),
+  bloomIntensity: numberIn(0, 4),
+  particleDensity: oneOf(['LOW', 'MEDIUM', 'HIGH'] as const),
+  showUI: isBoolean,
+  scaleMode: oneOf(SCALE_MODES),
+  unitSystem: oneOf(['METRIC', 'IMPERIAL'] as const),
+  layers: isLayerSettings,
+  keymap: isKeymap,
+  gamepadMapping: isGamepadMapping,
+};
+
+// Keeps every valid field and falls back to the default for the rest
+export const validatePreferences = (raw: Record<string, unknown>): Preferences => {
+  const preferences = { ...DEFAULT_PREFERENCES };
+  (Object.keys(VALIDATORS) as (keyof Preferences)[]).forEach(key => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (VALIDATORS[key](value)) {
+      (preferences as Record<string, unknown>)[key] = value;
+    } else {
+      console.warn(`Ignoring invalid saved preference ${key}:`, value);
+    }
+  });
+  return preferences;
+};
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PREFERENCES;
+    const stored = JSON.parse(raw) as StoredPreferences;
+    if (!stored || typeof stored.version !== 'number' || !stored.preferences || typeof stored.preferences !== 'object') {
+      throw new Error('unrecognised format');
+    }
+    return validatePreferences(migrate(stored));
+  } catch (error) {
+    console.warn('Ignoring unreadable preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    const stored: StoredPreferences = { version: PREFERENCES_VERSION, preferences: { ...preferences } };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn('Could not save preferences:', error);
+  }
+};
+
+export const clearPreferences = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not clear preferences:', error);
+  }
+};
@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { PlanetData } from '../types';
+import {
+  COMET_RADIAL_EXPONENT,
+  meanAnomalyAtDate,
+  positionFromEccentricAnomaly,
+  radiusAtEccentricAnomaly,
+  solveKepler
+} from './orbits';
+
+// How distances and sizes map to scene units. Each mode has its own distance
+// and radius mapping; switching tweens a blend of them so bodies morph smoothly.
+//   ARTISTIC     hand-tuned `distance` and `radius` from the system data
+//   LOGARITHMIC  both compressed logarithmically, so inner and outer system fit on screen
+//   REALISTIC    one scale for everything: 1 AU = REALISTIC_UNITS_PER_AU, radii in true proportion
+
+export type ScaleMode = 'ARTISTIC' | 'LOGARITHMIC' | 'REALISTIC';
+
+export const SCALE_MODES: ScaleMode[] = ['ARTISTIC', 'LOGARITHMIC', 'REALISTIC'];
+
+export const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+  ARTISTIC: 'Artistic',
+  LOGARITHMIC: 'Log',
+  REALISTIC: 'True',
+};
+
+export const KM_PER_AU = 149597870.7;
+export const REALISTIC_UNITS_PER_AU = 75; // Earth keeps its artistic distance
+
+const EARTH_RADIUS_KM = 6371;
+const ARTISTIC_EARTH_RADIUS = 2.4; // `radius` of Earth in the artistic data
+
+export const LOG_DISTANCE_SCALE = 60;
+export const LOG_DISTANCE_KNEE = 0.25; // AU; below this distances stay roughly linear
+const LOG_RADIUS_SCALE = 1.2;
+const LOG_RADIUS_KNEE = 2000; // km
+const LOG_MIN_RADIUS = 0.2; // Keeps comets and small moons clickable
+
+// Camera limits and home view for each mode
+export interface ScaleModeCamera {
+  minDistance: number;
+  maxDistance: number;
+  near: number;
+  far: number;
+  home: [number, number, number];
+}
+
+export const SCALE_MODE_CAMERA: Record<ScaleMode, ScaleModeCamera> = {
+  ARTISTIC: { minDistance: 10, maxDistance: 650, near: 0.1, far: 2000, home: [0, 150, 300] },
+  LOGARITHMIC: { minDistance: 2, maxDistance: 650, near: 0.05, far: 2000, home: [0, 150, 300] },
+  REALISTIC: { minDistance: 0.002, maxDistance: 8000, near: 0.0005, far: 30000, home: [0, 1500, 3000] },
+};
+
+// Mean radius in km, estimated from the artistic size when the data has no measurement
+export const bodyRadiusKm = (body: PlanetData): number => (
+  body.physical?.meanRadius ?? (body.radius / ARTISTIC_EARTH_RADIUS) * EARTH_RADIUS_KM
+);
+
+// Scene distance of a point `au` from the star under a physically based mode
+export const auToScene = (mode: Exclude<ScaleMode, 'ARTISTIC'>, au: number): number => (
+  mode === 'REALISTIC'
+    ? au * REALISTIC_UNITS_PER_AU
+    : LOG_DISTANCE_SCALE * Math.log1p(au / LOG_DISTANCE_KNEE)
+);
+
+// Scene distance of a body that is currently `au` from the star
+export const bodyDistance = (mode: ScaleMode, body: PlanetData, au: number): number => {
+  if (mode !== 'ARTISTIC') return auToScene(mode, au);
+  const a = body.orbit?.semiMajorAxis;
+  if (!a) return body.distance;
+  const ratio = au / a;
+  return body.distance * (body.category === 'comet' ? Math.pow(ratio, COMET_RADIAL_EXPONENT) : ratio);
+};
+
+export const bodyRadius = (mode: ScaleMode, body: PlanetData): number => {
+  if (mode === 'ARTISTIC') return body.radius;
+  const km = bodyRadiusKm(body);
+  return mode === 'REALISTIC'
+    ? (km / KM_PER_AU) * REALISTIC_UNITS_PER_AU
+    : Math.max(LOG_MIN_RADIUS, LOG_RADIUS_SCALE * Math.log1p(km / LOG_RADIUS_KNEE));
+};
+
+// Artistic distances only exist for bodies, so other points are placed by
+// interpolating between the system's planets: linearly between neighbours,
+// proportionally inside the first and beyond the last.
+const interpolateArtistic = (bodies: PlanetData[], value: number, from: 'scene' | 'au', to: 'scene' | 'au'): number => {
+  const anchors = bodies
+    .filter(b => b.orbit && b.distance > 0 && (b.category ?? 'planet') === 'planet')
+    .map(b => ({ scene: b.distance, au: b.orbit!.semiMajorAxis }))
+    .sort((a, b) => a[from] - b[from]);
+  if (anchors.length === 0) {
+    return from === 'scene' ? value / REALISTIC_UNITS_PER_AU : value * REALISTIC_UNITS_PER_AU;
+  }
+
+  const first = anchors[0];
+  const last = anchors[anchors.length - 1];
+  if (value <= first[from]) return value * (first[to] / first[from]);
+  for (let i = 1; i < anchors.length; i++) {
+    const lo = anchors[i - 1];
+    const hi = anchors[i];
+    if (value <= hi[from]) {
+      return THREE.MathUtils.mapLinear(value, lo[from], hi[from], lo[to], hi[to]);
+    }
+  }
+  return value * (last[to] / last[from]);
+};
+
+// Estimates the AU of an artistic scene radius, for things like belts that only have scene units
+export const artisticRadiusToAU = (bodies: PlanetData[], sceneRadius: number): number => (
+  interpolateArtistic(bodies, sceneRadius, 'scene', 'au')
+);
+
+// Scene distance from the star of a point `au` away, in any mode
+export const radialSceneDistance = (mode: ScaleMode, bodies: PlanetData[], au: number): number => (
+  mode === 'ARTISTIC' ? interpolateArtistic(bodies, au, 'au', 'scene') : auToScene(mode, au)
+);
+
+// Inverse of radialSceneDistance
+export const radialAUDistance = (mode: ScaleMode, bodies: PlanetData[], sceneDistance: number): number => {
+  switch (mode) {
+    case 'ARTISTIC':
+      return artisticRadiusToAU(bodies, sceneDistance);
+    case 'LOGARITHMIC':
+      return LOG_DISTANCE_KNEE * Math.expm1(sceneDistance / LOG_DISTANCE_SCALE);
+    case 'REALISTIC':
+      return sceneDistance / REALISTIC_UNITS_PER_AU;
+  }
+};
+
+// Heliocentric position in AU of a scene point, undoing the mode's radial stretch
+export const scenePositionToAU = (
+  mode: ScaleMode,
+  bodies: PlanetData[],
+  position: THREE.Vector3,
+  target: THREE.Vector3
+): THREE.Vector3 => target.copy(position).setLength(radialAUDistance(mode, bodies, position.length()));
+
+// AU per scene unit at `sceneDistance` from the star. Only the realistic mode is
+// uniform; the others stretch distances differently at different radii.
+export const auPerSceneUnit = (mode: ScaleMode, bodies: PlanetData[], sceneDistance: number): number => {
+  const step = Math.max(0.01, sceneDistance * 0.01);
+  const near = Math.max(0, sceneDistance - step);
+  return (radialAUDistance(mode, bodies, sceneDistance + step) - radialAUDistance(mode, bodies, near)) / (sceneDistance + step - near);
+};
+
+export interface ScaleTransition {
+  readonly mode: ScaleMode; // Target of the current (or last) morph
+  readonly version: number; // Bumped whenever the blend changes, so cached geometry can rebuild
+  setMode: (mode: ScaleMode, duration?: number) => void;
+  // Weighted blend of a per-mode value for the current point in the morph
+  blend: (value: (mode: ScaleMode) => number) => number;
+}
+
+// Tweening weights (rather than a from/to pair) keeps a morph smooth when the
+// mode is switched again before the previous one has finished.
+export const createScaleTransition = (initialMode: ScaleMode = 'ARTISTIC'): ScaleTransition => {
+  const weights = Object.fromEntries(SCALE_MODES.map(m => [m, m === initialMode ? 1 : 0])) as Record<ScaleMode, number>;
+  let mode = initialMode;
+  let version = 0;
+
+  return {
+    get mode() {
+      return mode;
+    },
+    get version() {
+      return version;
+    },
+    setMode: (next, duration = 2.5) => {
+      if (next === mode) return;
+      mode = next;
+      gsap.killTweensOf(weights);
+      gsap.to(weights, {
+        ...Object.fromEntries(SCALE_MODES.map(m => [m, m === next ? 1 : 0])),
+        duration,
+        ease: 'power2.inOut',
+        onUpdate: () => {
+          version++;
+        }
+      });
+    },
+    blend: (value) => {
+      let total = 0;
+      for (const m of SCALE_MODES) {
+        if (weights[m] > 0) total += weights[m] * value(m);
+      }
+      return total;
+    }
+  };
+};
+
+// Places an orbiting body for the current blend of scale modes and returns
+// its distance from the star in AU.
+export const placeOnScaledOrbit = (
+  transition: ScaleTransition,
+  body: PlanetData,
+  daysSinceEpoch: number,
+  target: THREE.Vector3
+): number => {
+  const orbit = body.orbit!;
+  const E = solveKepler(meanAnomalyAtDate(orbit, daysSinceEpoch), orbit.eccentricity);
+  const au = radiusAtEccentricAnomaly(orbit, E);
+  positionFromEccentricAnomaly(orbit, E, 1, target);
+  target.setLength(transition.blend(m => bodyDistance(m, body, au)));
+  return au;
+};
+
+// Closed orbit polyline for the current blend, sampled evenly in eccentric
+// anomaly. Writes into `out` when given so morphs don't allocate every frame.
+export const buildScaledOrbitPath = (
+  transition: ScaleTransition,
+  body: PlanetData,
+  segments = 128,
+  out = new Float32Array((segments + 1) * 3)
+): Float32Array => {
+  const orbit = body.orbit!;
+  const point = new THREE.Vector3();
+  for (let i = 0; i <= segments; i++) {
+    const E = (i / segments) * Math.PI * 2;
+    const au = radiusAtEccentricAnomaly(orbit, E);
+    positionFromEccentricAnomaly(orbit, E, 1, point);
+    point.setLength(transition.blend(m => bodyDistance(m, body, au)));
+    out[i * 3] = point.x;
+    out[i * 3 + 1] = point.y;
+    out[i * 3 + 2] = point.z;
+  }
+  return out;
+};
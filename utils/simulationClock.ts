@@ -0,0 +1,74 @@
+// Absolute simulation time, kept as a Julian date so every animated body can
+// derive its state from one shared instant instead of from render-loop time.
+
+export const J2000 = 2451545.0; // 2000-01-01 12:00 TT
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 86400000;
+
+// Simulated days that pass per real second at a time scale of 1x
+export const SIM_DAYS_PER_SECOND = 10;
+
+export const TIMELINE_MIN_JD = 2415020.5; // 1900-01-01
+export const TIMELINE_MAX_JD = 2488069.5; // 2100-01-01
+
+export type TimeStepUnit = 'day' | 'month' | 'year';
+
+export const julianDateFromDate = (date: Date): number => date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+
+export const dateFromJulianDate = (jd: number): Date => new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY);
+
+export const formatJulianDate = (jd: number): string => {
+  const iso = dateFromJulianDate(jd).toISOString(); // YYYY-MM-DDTHH:mm:ss.sssZ
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+};
+
+export interface SimulationClock {
+  julianDate: number;
+  // Days since J2000, the epoch orbital elements are referenced to
+  daysSinceEpoch: () => number;
+  // Equivalent real seconds at 1x; drives the purely artistic animations (spin, moons, belt)
+  elapsedSeconds: () => number;
+  advance: (deltaSeconds: number, timeScale: number) => void;
+  setJulianDate: (jd: number) => void;
+  step: (unit: TimeStepUnit, count: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createSimulationClock = (startDate: Date = new Date()): SimulationClock => {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  const clock: SimulationClock = {
+    julianDate: julianDateFromDate(startDate),
+    daysSinceEpoch: () => clock.julianDate - J2000,
+    elapsedSeconds: () => (clock.julianDate - J2000) / SIM_DAYS_PER_SECOND,
+    advance: (deltaSeconds, timeScale) => {
+      if (timeScale === 0 || deltaSeconds <= 0) return;
+      clock.julianDate += deltaSeconds * timeScale * SIM_DAYS_PER_SECOND;
+      notify();
+    },
+    setJulianDate: (jd) => {
+      clock.julianDate = jd;
+      notify();
+    },
+    step: (unit, count) => {
+      if (unit === 'day') {
+        clock.setJulianDate(clock.julianDate + count);
+        return;
+      }
+      // Months and years follow the calendar rather than a fixed day count
+      const date = dateFromJulianDate(clock.julianDate);
+      if (unit === 'month') date.setUTCMonth(date.getUTCMonth() + count);
+      else date.setUTCFullYear(date.getUTCFullYear() + count);
+      clock.setJulianDate(julianDateFromDate(date));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  return clock;
+};
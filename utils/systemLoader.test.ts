@@ -0,0 +1,53 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SystemValidationError, parseSystemDefinition, validateSystemDefinition } from './systemLoader';
+
+const star = { id: 'sol', name: 'Sol', radius: 10, color: '#ffcc00' };
+const planet = {
+  id: 'terra',
+  name: 'Terra',
+  radius: 2.4,
+  distance: 75,
+  color: '#00aaff',
+  orbit: { semiMajorAxis: 1, eccentricity: 0.0167 }
+};
+
+const issuesOf = (raw: unknown): string[] => {
+  try {
+    validateSystemDefinition(raw);
+  } catch (error) {
+    if (error instanceof SystemValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('validateSystemDefinition', () => {
+  it('accepts a planet with orbital elements', () => {
+    const system = validateSystemDefinition({ id: 'test', name: 'Test', star, planets: [planet] });
+    expect(system.planets[0].orbit).toMatchObject({ semiMajorAxis: 1, eccentricity: 0.0167 });
+  });
+
+  it('rejects a planet without an orbit, which would render inside the star', () => {
+    const { orbit: _orbit, ...withoutOrbit } = planet;
+    expect(issuesOf({ id: 'test', name: 'Test', star, planets: [planet, { ...withoutOrbit, id: 'luna' }] }))
+      .toEqual(['planets[1].orbit is required']);
+  });
+
+  it('requires an orbit for every category', () => {
+    const { orbit: _orbit, ...withoutOrbit } = planet;
+    const planets = (['planet', 'dwarf', 'comet'] as const).map(category => ({ ...withoutOrbit, id: category, category }));
+    expect(issuesOf({ id: 'test', name: 'Test', star, planets })).toEqual([
+      'planets[0].orbit is required',
+      'planets[1].orbit is required',
+      'planets[2].orbit is required'
+    ]);
+  });
+
+  it('loads the bundled TRAPPIST-1 system', () => {
+    const json = readFileSync(new URL('../public/systems/trappist-1.json', import.meta.url), 'utf8');
+    const system = parseSystemDefinition(json);
+    expect(system.planets).toHaveLength(7);
+    expect(system.planets.every(p => p.orbit)).toBe(true);
+  });
+});
@@ -0,0 +1,276 @@
+import { BeltData, BodyCategory, MoonData, OrbitalElements, PhysicalData, PlanetData, StarData, SystemDefinition } from '../types';
+
+// Loads and validates planetary system definitions from JSON.
+// The format is described by public/systems/system.schema.json; validation
+// here mirrors it and reports every problem with the path that caused it.
+
+export class SystemValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid system definition:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'SystemValidationError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const ORBITING_CATEGORIES: BodyCategory[] = ['planet', 'dwarf', 'comet'];
+
+// Tiny validation helpers that record issues instead of throwing, so one pass reports everything
+export const createValidator = () => {
+  const issues: string[] = [];
+  const describe = (value: unknown) => (value === undefined ? 'missing' : JSON.stringify(value));
+
+  const string = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || value.trim() === '') issues.push(`${path} must be a non-empty string (got ${describe(value)})`);
+    return value as string;
+  };
+  const color = (value: unknown, path: string): string => {
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) issues.push(`${path} must be a hex color like "#00e0ff" (got ${describe(value)})`);
+    return value as string;
+  };
+  const number = (value: unknown, path: string, { min = -Infinity, max = Infinity, exclusiveMin = false, exclusiveMax = false } = {}): number => {
+    const ok = typeof value === 'number' && Number.isFinite(value)
+      && (exclusiveMin ? value > min : value >= min)
+      && (exclusiveMax ? value < max : value <= max);
+    if (!ok) {
+      const range = [
+        min > -Infinity ? `${exclusiveMin ? '>' : '≥'} ${min}` : '',
+        max < Infinity ? `${exclusiveMax ? '<' : '≤'} ${max}` : ''
+      ].filter(Boolean).join(' and ');
+      issues.push(`${path} must be a number${range ? ` ${range}` : ''} (got ${describe(value)})`);
+    }
+    return value as number;
+  };
+  const optionalNumber = (value: unknown, path: string, fallback: number, range = {}): number => (
+    value === undefined ? fallback : number(value, path, range)
+  );
+  const object = (value: unknown, path: string): Record<string, unknown> | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push(`${path} must be an object (got ${describe(value)})`);
+      return null;
+    }
+    return value as Record<string, unknown>;
+  };
+
+  return { issues, string, color, number, optionalNumber, object };
+};
+
+export type Validator = ReturnType<typeof createValidator>;
+
+const validatePhysical = (v: Validator, raw: unknown, path: string): PhysicalData | undefined => {
+  if (raw === undefined) return undefined;
+  const physical = v.object(raw, path);
+  if (!physical) return undefined;
+  const data: PhysicalData = {
+    meanRadius: v.number(physical.meanRadius, `${path}.meanRadius`, { min: 0, exclusiveMin: true })
+  };
+  const positive = { min: 0, exclusiveMin: true };
+  if (physical.mass !== undefined) data.mass = v.number(physical.mass, `${path}.mass`, positive);
+  if (physical.rotationPeriod !== undefined) data.rotationPeriod = v.number(physical.rotationPeriod, `${path}.rotationPeriod`);
+  if (physical.axialTilt !== undefined) data.axialTilt = v.number(physical.axialTilt, `${path}.axialTilt`, { min: 0, max: 180 });
+  if (physical.surfaceGravity !== undefined) data.surfaceGravity = v.number(physical.surfaceGravity, `${path}.surfaceGravity`, positive);
+  if (physical.meanTemperature !== undefined) data.meanTemperature = v.number(physical.meanTemperature, `${path}.meanTemperature`, positive);
+  if (physical.escapeVelocity !== undefined) data.escapeVelocity = v.number(physical.escapeVelocity, `${path}.escapeVelocity`, positive);
+  return data;
+};
+
+const validateStar = (v: Validator, raw: unknown): StarData | null => {
+  const star = v.object(raw, 'star');
+  if (!star) return null;
+  return {
+    id: v.string(star.id, 'star.id'),
+    name: v.string(star.name, 'star.name'),
+    radius: v.number(star.radius, 'star.radius', { min: 0, exclusiveMin: true }),
+    rotationSpeed: v.optionalNumber(star.rotationSpeed, 'star.rotationSpeed', 0.005),
+    color: v.color(star.color, 'star.color'),
+    details: typeof star.details === 'string' ? star.details : '',
+    physical: validatePhysical(v, star.physical, 'star.physical')
+  };
+};
+
+const validateOrbit = (v: Validator, raw: unknown, path: string): OrbitalElements | undefined => {
+  if (raw === undefined) return undefined;
+  const orbit = v.object(raw, path);
+  if (!orbit) return undefined;
+  const elements: OrbitalElements = {
+    semiMajorAxis: v.number(orbit.semiMajorAxis, `${path}.semiMajorAxis`, { min: 0, exclusiveMin: true }),
+    eccentricity: v.number(orbit.eccentricity, `${path}.eccentricity`, { min: 0, max: 1, exclusiveMax: true }),
+    inclination: v.optionalNumber(orbit.inclination, `${path}.inclination`, 0, { min: -180, max: 180 }),
+    longitudeOfAscendingNode: v.optionalNumber(orbit.longitudeOfAscendingNode, `${path}.longitudeOfAscendingNode`, 0),
+    argumentOfPerihelion: v.optionalNumber(orbit.argumentOfPerihelion, `${path}.argumentOfPerihelion`, 0),
+    meanAnomalyAtEpoch: v.optionalNumber(orbit.meanAnomalyAtEpoch, `${path}.meanAnomalyAtEpoch`, 0)
+  };
+  if (orbit.period !== undefined) {
+    elements.period = v.number(orbit.period, `${path}.period`, { min: 0, exclusiveMin: true });
+  }
+  return elements;
+};
+
+const validateMoon = (v: Validator, raw: unknown, path: string): MoonData | null => {
+  const moon = v.object(raw, path);
+  if (!moon) return null;
+  const data: MoonData = {
+    id: v.string(moon.id, `${path}.id`),
+    name: v.string(moon.name, `${path}.name`),
+    distance: v.number(moon.distance, `${path}.distance`, { min: 1, exclusiveMin: true }),
+    radius: v.number(moon.radius, `${path}.radius`, { min: 0, exclusiveMin: true }),
+    period: v.number(moon.period, `${path}.period`, { min: 0, exclusiveMin: true }),
+    inclination: v.optionalNumber(moon.inclination, `${path}.inclination`, 0, { min: 0, max: 180 }),
+    phase: v.optionalNumber(moon.phase, `${path}.phase`, 0),
+    details: typeof moon.details === 'string' ? moon.details : ''
+  };
+  if (moon.color !== undefined) data.color = v.color(moon.color, `${path}.color`);
+  return data;
+};
+
+const validateMoonCatalog = (v: Validator, raw: unknown, path: string): MoonData[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    v.issues.push(`${path} must be an array when present`);
+    return undefined;
+  }
+  return raw.map((m, i) => validateMoon(v, m, `${path}[${i}]`)).filter((m): m is MoonData => !!m);
+};
+
+const validatePlanet = (v: Validator, raw: unknown, path: string): PlanetData | null => {
+  const planet = v.object(raw, path);
+  if (!planet) return null;
+  if (planet.hasRings !== undefined && typeof planet.hasRings !== 'boolean') {
+    v.issues.push(`${path}.hasRings must be true or false`);
+  }
+  if (planet.moons !== undefined && !(Number.isInteger(planet.moons) && (planet.moons as number) >= 0)) {
+    v.issues.push(`${path}.moons must be a whole number ≥ 0 (got ${JSON.stringify(planet.moons)})`);
+  }
+  const category = (planet.category ?? 'planet') as BodyCategory;
+  if (!ORBITING_CATEGORIES.includes(category)) {
+    v.issues.push(`${path}.category must be one of ${ORBITING_CATEGORIES.map(c => `"${c}"`).join(', ')} (got ${JSON.stringify(planet.category)})`);
+  }
+  // Without elements a body would sit at the origin, inside the star
+  if (planet.orbit === undefined) {
+    v.issues.push(`${path}.orbit is required`);
+  }
+  const data: PlanetData = {
+    id: v.string(planet.id, `${path}.id`),
+    name: v.string(planet.name, `${path}.name`),
+    category,
+    radius: v.number(planet.radius, `${path}.radius`, { min: 0, exclusiveMin: true }),
+    distance: v.number(planet.distance, `${path}.distance`, { min: 0, exclusiveMin: true }),
+    speed: v.optionalNumber(planet.speed, `${path}.speed`, 1),
+    rotationSpeed: v.optionalNumber(planet.rotationSpeed, `${path}.rotationSpeed`, 0.01),
+    color: v.color(planet.color, `${path}.color`),
+    details: typeof planet.details === 'string' ? planet.details : '',
+    moons: (planet.moons as number | undefined) ?? (Array.isArray(planet.moonCatalog) ? planet.moonCatalog.length : 0),
+    moonCatalog: validateMoonCatalog(v, planet.moonCatalog, `${path}.moonCatalog`),
+    hasRings: planet.hasRings === true,
+    orbit: validateOrbit(v, planet.orbit, `${path}.orbit`),
+    physical: validatePhysical(v, planet.physical, `${path}.physical`)
+  };
+  if (planet.tailLength !== undefined) {
+    data.tailLength = v.number(planet.tailLength, `${path}.tailLength`, { min: 0 });
+  }
+  return data;
+};
+
+const validateBelt = (v: Validator, raw: unknown, path: string): BeltData | null => {
+  const belt = v.object(raw, path);
+  if (!belt) return null;
+  const innerRadius = v.number(belt.innerRadius, `${path}.innerRadius`, { min: 0, exclusiveMin: true });
+  const outerRadius = v.number(belt.outerRadius, `${path}.outerRadius`, { min: 0, exclusiveMin: true });
+  if (typeof innerRadius === 'number' && typeof outerRadius === 'number' && outerRadius <= innerRadius) {
+    v.issues.push(`${path}.outerRadius must be larger than innerRadius`);
+  }
+  return {
+    id: v.string(belt.id, `${path}.id`),
+    name: v.string(belt.name, `${path}.name`),
+    count: v.number(belt.count, `${path}.count`, { min: 1, max: 20000 }),
+    innerRadius,
+    outerRadius,
+    thickness: v.optionalNumber(belt.thickness, `${path}.thickness`, 4, { min: 0 }),
+    rotationSpeed: v.optionalNumber(belt.rotationSpeed, `${path}.rotationSpeed`, 0.05),
+    color: belt.color === undefined ? '#555555' : v.color(belt.color, `${path}.color`)
+  };
+};
+
+// Validates already-parsed JSON. Throws SystemValidationError listing every issue found.
+export const validateSystemDefinition = (raw: unknown): SystemDefinition => {
+  const v = createValidator();
+  const root = v.object(raw, 'system');
+  if (!root) throw new SystemValidationError(v.issues);
+
+  const star = validateStar(v, root.star);
+
+  let planets: PlanetData[] = [];
+  if (!Array.isArray(root.planets) || root.planets.length === 0) {
+    v.issues.push('planets must be a non-empty array');
+  } else {
+    planets = root.planets.map((p, i) => validatePlanet(v, p, `planets[${i}]`)).filter((p): p is PlanetData => !!p);
+  }
+
+  let belts: BeltData[] = [];
+  if (root.belts !== undefined && !Array.isArray(root.belts)) {
+    v.issues.push('belts must be an array when present');
+  } else if (Array.isArray(root.belts)) {
+    belts = root.belts.map((b, i) => validateBelt(v, b, `belts[${i}]`)).filter((b): b is BeltData => !!b);
+  }
+
+  // Ids are used for focus and registry lookups, so they must be unique across the system
+  const seen = new Set<string>();
+  const moons = planets.flatMap(p => p.moonCatalog ?? []);
+  [star, ...planets, ...moons, ...belts].forEach(entry => {
+    if (!entry || typeof entry.id !== 'string') return;
+    if (seen.has(entry.id)) v.issues.push(`id "${entry.id}" is used more than once`);
+    seen.add(entry.id);
+  });
+
+  const definition = {
+    id: v.string(root.id, 'id'),
+    name: v.string(root.name, 'name'),
+    star: star as StarData,
+    planets,
+    belts
+  };
+
+  if (v.issues.length > 0) throw new SystemValidationError(v.issues);
+  return definition;
+};
+
+export const parseSystemDefinition = (json: string): SystemDefinition => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new SystemValidationError([`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return validateSystemDefinition(raw);
+};
+
+// Accepts a bundled system name (e.g. "trappist-1" → /systems/trappist-1.json) or a full URL
+export const fetchSystemDefinition = async (nameOrUrl: string): Promise<SystemDefinition> => {
+  const isUrl = nameOrUrl.includes('/') || nameOrUrl.endsWith('.json');
+  const url = isUrl ? nameOrUrl : `/systems/${encodeURIComponent(nameOrUrl)}.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load system "${nameOrUrl}" (HTTP ${response.status}).`);
+  }
+  return parseSystemDefinition(await response.text());
+};
+
+// The star is rendered and selected like any other body, sitting at the origin
+export const systemBodies = (system: SystemDefinition): PlanetData[] => [
+  {
+    ...system.star,
+    category: 'star',
+    distance: 0,
+    speed: 0,
+    moons: 0
+  },
+  ...system.planets
+];
+
+// Looks up a named moon and the planet it orbits
+export const findMoon = (bodies: PlanetData[], id: string): { moon: MoonData; parent: PlanetData } | null => {
+  for (const parent of bodies) {
+    const moon = parent.moonCatalog?.find(m => m.id === id);
+    if (moon) return { moon, parent };
+  }
+  return null;
+};
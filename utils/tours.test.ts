@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { TourValidationError, validateTour } from './tours';
+
+const issuesOf = (raw: unknown): string[] => {
+  try {
+    validateTour(raw);
+  } catch (error) {
+    if (error instanceof TourValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+const instantSteps = [
+  { type: 'caption', text: 'Hello' },
+  { type: 'highlight', body: 'earth' }
+];
+
+describe('validateTour', () => {
+  it('refuses to loop a tour whose steps take no time', () => {
+    expect(issuesOf({ id: 'instant', title: 'Instant', steps: instantSteps })).toHaveLength(1);
+  });
+
+  it('plays instant steps once when the tour does not loop', () => {
+    expect(validateTour({ id: 'instant', title: 'Instant', loop: false, steps: instantSteps }).loop).toBe(false);
+  });
+
+  it('loops a tour with at least one timed step', () => {
+    const tour = validateTour({ id: 'timed', title: 'Timed', steps: [...instantSteps, { type: 'wait', duration: 1 }] });
+    expect(tour.loop).toBe(true);
+  });
+});
@@ -0,0 +1,233 @@
+import { SystemDefinition } from '../types';
+import { createValidator, Validator } from './systemLoader';
+import { Vec3Tuple } from './viewLink';
+
+// Guided tours for AUTO mode: a JSON list of steps played in order by the
+// camera controller, one GSAP timeline per step.
+//   focus      fly to a body (null = the whole system) and keep following it
+//   camera     fly through `path`, offsets from the focused body in its radii
+//              (scene units, stretched to the scale mode, when nothing is focused)
+//   speed      set the time scale
+//   caption    show narration (text null hides it)
+//   highlight  ring a body (null clears it)
+//   wait       hold for `duration` seconds
+// Focus, camera and wait steps take time; the rest apply instantly.
+
+export type TourStep =
+  | { type: 'focus'; body: string | null; duration?: number }
+  | { type: 'camera'; path: Vec3Tuple[]; duration: number; ease?: string }
+  | { type: 'speed'; value: number }
+  | { type: 'caption'; title?: string; text: string | null }
+  | { type: 'highlight'; body: string | null }
+  | { type: 'wait'; duration: number };
+
+export interface Tour {
+  id: string;
+  title: string;
+  loop?: boolean; // Start over after the last step (default true), e.g. for a kiosk attract loop
+  steps: TourStep[];
+}
+
+export interface TourCaption {
+  title?: string;
+  text: string;
+}
+
+// Where playback is. `generation` changes whenever a step (re)starts, so
+// jumping to the step that is already current still replays it.
+export interface TourPlayback {
+  stepIndex: number;
+  playing: boolean;
+  generation: number;
+}
+
+// Written every frame by the player, read by the progress bar
+export interface TourProgress {
+  elapsed: number; // Seconds into the whole tour
+}
+
+export const FOCUS_DURATION = 3;
+
+export const tourStepDuration = (step: TourStep): number => {
+  switch (step.type) {
+    case 'focus': return step.duration ?? FOCUS_DURATION;
+    case 'camera':
+    case 'wait': return step.duration;
+    default: return 0;
+  }
+};
+
+export const tourDuration = (tour: Tour): number => (
+  tour.steps.reduce((total, step) => total + tourStepDuration(step), 0)
+);
+
+// Seconds into the tour at which a step starts
+export const tourStepStart = (tour: Tour, index: number): number => (
+  tour.steps.slice(0, index).reduce((total, step) => total + tourStepDuration(step), 0)
+);
+
+// Steps that open a chapter (each caption), for next/previous navigation
+export const tourChapters = (tour: Tour): number[] => {
+  const starts = tour.steps
+    .map((step, i) => (step.type === 'caption' && step.text ? i : -1))
+    .filter(i => i > 0);
+  return [0, ...starts];
+};
+
+export interface TourState {
+  focus?: string | null;
+  caption?: TourCaption | null;
+  highlight?: string | null;
+  speed?: number;
+}
+
+// What the steps before `index` leave behind, so jumping into the middle of a
+// tour looks the same as playing up to that point. Unset fields were never touched.
+export const tourStateAt = (tour: Tour, index: number): TourState => {
+  const state: TourState = {};
+  tour.steps.slice(0, index).forEach(step => {
+    if (step.type === 'focus') state.focus = step.body;
+    if (step.type === 'caption') state.caption = step.text ? { title: step.title, text: step.text } : null;
+    if (step.type === 'highlight') state.highlight = step.body;
+    if (step.type === 'speed') state.speed = step.value;
+  });
+  return state;
+};
+
+export class TourValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid tour:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'TourValidationError';
+  }
+}
+
+const vec3 = (v: Validator, raw: unknown, path: string): Vec3Tuple => {
+  if (!Array.isArray(raw) || raw.length !== 3) {
+    v.issues.push(`${path} must be an [x, y, z] array (got ${JSON.stringify(raw)})`);
+    return [0, 0, 0];
+  }
+  return raw.map((n, i) => v.number(n, `${path}[${i}]`)) as Vec3Tuple;
+};
+
+const optionalBody = (v: Validator, raw: unknown, path: string): string | null => (
+  raw === null ? null : v.string(raw, path)
+);
+
+const validateStep = (v: Validator, raw: unknown, path: string): TourStep | null => {
+  const step = v.object(raw, path);
+  if (!step) return null;
+  const positive = { min: 0, exclusiveMin: true };
+
+  switch (step.type) {
+    case 'focus':
+      return {
+        type: 'focus',
+        body: optionalBody(v, step.body, `${path}.body`),
+        duration: v.optionalNumber(step.duration, `${path}.duration`, FOCUS_DURATION, positive)
+      };
+    case 'camera': {
+      if (!Array.isArray(step.path) || step.path.length === 0) {
+        v.issues.push(`${path}.path must be a non-empty array of [x, y, z] points`);
+      }
+      return {
+        type: 'camera',
+        path: Array.isArray(step.path) ? step.path.map((p, i) => vec3(v, p, `${path}.path[${i}]`)) : [],
+        duration: v.number(step.duration, `${path}.duration`, positive),
+        ...(step.ease !== undefined && { ease: v.string(step.ease, `${path}.ease`) })
+      };
+    }
+    case 'speed':
+      return { type: 'speed', value: v.number(step.value, `${path}.value`, { min: -5, max: 5 }) };
+    case 'caption':
+      return {
+        type: 'caption',
+        text: step.text === null ? null : v.string(step.text, `${path}.text`),
+        ...(step.title !== undefined && { title: v.string(step.title, `${path}.title`) })
+      };
+    case 'highlight':
+      return { type: 'highlight', body: optionalBody(v, step.body, `${path}.body`) };
+    case 'wait':
+      return { type: 'wait', duration: v.number(step.duration, `${path}.duration`, positive) };
+    default:
+      v.issues.push(`${path}.type must be one of focus, camera, speed, caption, highlight, wait (got ${JSON.stringify(step.type)})`);
+      return null;
+  }
+};
+
+// Validates already-parsed JSON. Throws TourValidationError listing every issue found.
+export const validateTour = (raw: unknown): Tour => {
+  const v = createValidator();
+  const root = v.object(raw, 'tour');
+  if (!root) throw new TourValidationError(v.issues);
+
+  let steps: TourStep[] = [];
+  if (!Array.isArray(root.steps) || root.steps.length === 0) {
+    v.issues.push('steps must be a non-empty array');
+  } else {
+    steps = root.steps.map((s, i) => validateStep(v, s, `steps[${i}]`)).filter((s): s is TourStep => !!s);
+  }
+  if (root.loop !== undefined && typeof root.loop !== 'boolean') {
+    v.issues.push(`loop must be true or false (got ${JSON.stringify(root.loop)})`);
+  }
+
+  const tour: Tour = {
+    id: v.string(root.id, 'id'),
+    title: v.string(root.title, 'title'),
+    loop: root.loop !== false,
+    steps
+  };
+
+  // Instant steps would restart forever without ever yielding to the page
+  if (tour.loop && steps.length > 0 && tourDuration(tour) === 0) {
+    v.issues.push('loop needs at least one focus, camera or wait step, or the tour would replay endlessly in no time');
+  }
+
+  if (v.issues.length > 0) throw new TourValidationError(v.issues);
+  return tour;
+};
+
+export const parseTour = (json: string): Tour => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new TourValidationError([`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return validateTour(raw);
+};
+
+// Accepts a bundled tour name (e.g. "inner-planets" → /tours/inner-planets.json) or a full URL
+export const fetchTour = async (nameOrUrl: string): Promise<Tour> => {
+  const isUrl = nameOrUrl.includes('/') || nameOrUrl.endsWith('.json');
+  const url = isUrl ? nameOrUrl : `/tours/${encodeURIComponent(nameOrUrl)}.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load tour "${nameOrUrl}" (HTTP ${response.status}).`);
+  }
+  return parseTour(await response.text());
+};
+
+// The default tour: an overview of the system, then a visit to each planet in turn
+export const buildGrandTour = (system: SystemDefinition): Tour => ({
+  id: 'grand-tour',
+  title: 'Grand Tour',
+  loop: true,
+  steps: [
+    { type: 'speed', value: 1 },
+    { type: 'highlight', body: null },
+    { type: 'caption', title: system.name, text: system.star.details },
+    { type: 'focus', body: null, duration: 4 },
+    { type: 'camera', path: [[250, 90, 150], [150, 60, -250], [-200, 120, -150]], duration: 10, ease: 'sine.inOut' },
+    ...system.planets.filter(p => (p.category ?? 'planet') === 'planet').flatMap((planet): TourStep[] => [
+      { type: 'caption', title: planet.name, text: planet.details },
+      { type: 'highlight', body: planet.id },
+      { type: 'focus', body: planet.id },
+      { type: 'camera', path: [[7, 2, 0], [0, 3, -7], [-6, 4, 2]], duration: 9, ease: 'sine.inOut' },
+      { type: 'highlight', body: null },
+      { type: 'wait', duration: 1 },
+    ]),
+    { type: 'caption', title: 'Grand Tour', text: 'That concludes the tour. It will begin again shortly.' },
+    { type: 'focus', body: null, duration: 5 },
+    { type: 'wait', duration: 4 },
+  ]
+});
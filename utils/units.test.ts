@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { formatMass } from './units';
+
+describe('formatMass', () => {
+  it('writes large masses in scientific notation', () => {
+    expect(formatMass(5.9722e24, 'METRIC')).toBe('5.97 × 10²⁴ kg');
+  });
+
+  it('carries a mantissa that rounds up to 10 into the exponent', () => {
+    expect(formatMass(9.999e5, 'METRIC')).toBe('1.00 × 10⁶ kg');
+  });
+
+  it('writes negative exponents', () => {
+    expect(formatMass(1.5e-3, 'METRIC')).toBe('1.50 × 10⁻³ kg');
+  });
+});
@@ -0,0 +1,91 @@
+import { KM_PER_AU } from './scaleModes';
+
+// Formatting for physical quantities in the info panels. Values are stored in
+// SI-style units (see PhysicalData) and converted only for display.
+
+export type UnitSystem = 'METRIC' | 'IMPERIAL';
+
+export const MI_PER_KM = 0.621371;
+const LB_PER_KG = 2.20462;
+const FT_PER_M = 3.28084;
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const formatNumber = (value: number, significantDigits = 3): string => (
+  value.toLocaleString('en-US', { maximumSignificantDigits: significantDigits })
+);
+
+// 5.97 × 10²⁴, for numbers too large to read in full. toExponential rounds
+// before picking the exponent, so 9.999e5 reads 1.00 × 10⁶, not 10.00 × 10⁵.
+const formatScientific = (value: number, significantDigits = 3): string => {
+  const [mantissa, exponent] = value.toExponential(significantDigits - 1).split('e');
+  const power = String(Number(exponent)).replace('-', '⁻').replace(/\d/g, d => SUPERSCRIPT_DIGITS[Number(d)]);
+  return `${mantissa} × 10${power}`;
+};
+
+export const formatMass = (kg: number, units: UnitSystem): string => (
+  units === 'METRIC' ? `${formatScientific(kg)} kg` : `${formatScientific(kg * LB_PER_KG)} lb`
+);
+
+export const formatLength = (km: number, units: UnitSystem): string => (
+  units === 'METRIC' ? `${formatNumber(km, 4)} km` : `${formatNumber(km * MI_PER_KM, 4)} mi`
+);
+
+// Semi-major axis in AU, with the everyday-unit equivalent
+export const formatAU = (au: number, units: UnitSystem): string => {
+  const distance = au * KM_PER_AU * (units === 'METRIC' ? 1 : MI_PER_KM);
+  const unit = units === 'METRIC' ? 'km' : 'mi';
+  const everyday = distance >= 1e9 ? `${formatNumber(distance / 1e9)} billion ${unit}` : `${formatNumber(distance / 1e6)} million ${unit}`;
+  return `${formatNumber(au, 4)} AU (${everyday})`;
+};
+
+// Short form for labels: AU across the system, km or miles up close
+export const formatDistance = (au: number, units: UnitSystem): string => {
+  if (au >= 0.01) return `${formatNumber(au)} AU`;
+  const km = au * KM_PER_AU;
+  return units === 'METRIC' ? `${formatNumber(km)} km` : `${formatNumber(km * MI_PER_KM)} mi`;
+};
+
+// Light travel times: seconds, then minutes and seconds, then hours and minutes
+export const formatLightTime = (seconds: number): string => {
+  if (seconds < 60) return `${formatNumber(seconds)} s`;
+  const whole = Math.round(seconds);
+  if (whole < 3600) return `${Math.floor(whole / 60)} min ${whole % 60} s`;
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Periods in days, shown in hours, days or years depending on length
+export const formatDuration = (days: number): string => {
+  const abs = Math.abs(days);
+  if (abs < 2) return `${formatNumber(abs * 24, 3)} hours`;
+  if (abs < 730) return `${formatNumber(abs, 5)} days`;
+  return `${formatNumber(abs / 365.25, 4)} years`;
+};
+
+// Negative rotation periods mean the body spins backwards
+export const formatRotation = (hours: number): string => (
+  `${formatDuration(hours / 24)}${hours < 0 ? ' (retrograde)' : ''}`
+);
+
+export const formatTemperature = (kelvin: number, units: UnitSystem): string => (
+  units === 'METRIC'
+    ? `${formatNumber(kelvin, 4)} K (${Math.round(kelvin - 273.15)} °C)`
+    : `${Math.round((kelvin - 273.15) * 1.8 + 32)} °F`
+);
+
+export const formatAcceleration = (metersPerSecond2: number, units: UnitSystem): string => (
+  units === 'METRIC'
+    ? `${formatNumber(metersPerSecond2)} m/s²`
+    : `${formatNumber(metersPerSecond2 * FT_PER_M)} ft/s²`
+);
+
+// Slow speeds (small bodies' escape velocities) read better per second in m or ft
+export const formatSpeed = (kmPerSecond: number, units: UnitSystem): string => {
+  if (units === 'METRIC') {
+    return kmPerSecond < 1 ? `${formatNumber(kmPerSecond * 1000)} m/s` : `${formatNumber(kmPerSecond)} km/s`;
+  }
+  const miPerSecond = kmPerSecond * MI_PER_KM;
+  return miPerSecond < 1 ? `${formatNumber(kmPerSecond * 1000 * FT_PER_M)} ft/s` : `${formatNumber(miPerSecond)} mi/s`;
+};
+
+export const formatAngle = (degrees: number): string => `${formatNumber(degrees, 4)}°`;
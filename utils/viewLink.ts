@@ -0,0 +1,83 @@
+import { ControlMode, ParticleDensity } from '../types';
+import { SCALE_MODES, ScaleMode } from './scaleModes';
+import { TIMELINE_MAX_JD, TIMELINE_MIN_JD } from './simulationClock';
+
+// Serializes the shareable parts of the view into the URL hash, e.g.
+//   #focus=saturn&mode=MOUSE&speed=1&paused=0&density=MEDIUM&bloom=1.5&scale=ARTISTIC&jd=2460000.5&cam=0,150,300,0,0,0
+// Parsing is forgiving: unknown keys and invalid values are dropped so a
+// hand-edited or outdated link still opens with whatever parts make sense.
+
+export type Vec3Tuple = [number, number, number];
+
+export interface ViewLinkState {
+  focusedBody: string | null;
+  controlMode: ControlMode;
+  simulationSpeed: number;
+  isPaused: boolean;
+  particleDensity: ParticleDensity;
+  bloomIntensity: number;
+  scaleMode: ScaleMode;
+  julianDate: number;
+  camera: { position: Vec3Tuple; target: Vec3Tuple };
+}
+
+const DENSITIES: ParticleDensity[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const round = (value: number, precision = 6) => Number(value.toPrecision(precision));
+
+export const encodeViewLink = (state: ViewLinkState): string => {
+  const params = new URLSearchParams();
+  if (state.focusedBody) params.set('focus', state.focusedBody);
+  params.set('mode', state.controlMode);
+  params.set('speed', String(round(state.simulationSpeed, 3)));
+  params.set('paused', state.isPaused ? '1' : '0');
+  params.set('density', state.particleDensity);
+  params.set('bloom', String(round(state.bloomIntensity, 3)));
+  params.set('scale', state.scaleMode);
+  params.set('jd', state.julianDate.toFixed(5));
+  params.set('cam', [...state.camera.position, ...state.camera.target].map(v => round(v)).join(','));
+  // URLSearchParams escapes commas; they are safe in a fragment and much easier to read
+  return `#${params.toString().replace(/%2C/g, ',')}`;
+};
+
+const finiteNumber = (value: string | null, min = -Infinity, max = Infinity): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : undefined;
+};
+
+export const parseViewLink = (hash: string): Partial<ViewLinkState> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<ViewLinkState> = {};
+
+  const focus = params.get('focus');
+  if (focus) state.focusedBody = focus;
+
+  const mode = params.get('mode');
+  if (mode && (Object.values(ControlMode) as string[]).includes(mode)) state.controlMode = mode as ControlMode;
+
+  const speed = finiteNumber(params.get('speed'), -5, 5);
+  if (speed !== undefined) state.simulationSpeed = speed;
+
+  if (params.has('paused')) state.isPaused = params.get('paused') === '1';
+
+  const density = params.get('density');
+  if (density && (DENSITIES as string[]).includes(density)) state.particleDensity = density as ParticleDensity;
+
+  const bloom = finiteNumber(params.get('bloom'), 0, 4);
+  if (bloom !== undefined) state.bloomIntensity = bloom;
+
+  const scale = params.get('scale');
+  if (scale && (SCALE_MODES as string[]).includes(scale)) state.scaleMode = scale as ScaleMode;
+
+  const jd = finiteNumber(params.get('jd'), TIMELINE_MIN_JD, TIMELINE_MAX_JD);
+  if (jd !== undefined) state.julianDate = jd;
+
+  const cam = params.get('cam')?.split(',').map(v => finiteNumber(v));
+  if (cam && cam.length === 6 && cam.every(v => v !== undefined)) {
+    const [px, py, pz, tx, ty, tz] = cam as number[];
+    state.camera = { position: [px, py, pz], target: [tx, ty, tz] };
+  }
+
+  return state;
+};
@@ -1,7 +1,40 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves the MediaPipe WASM runtime from node_modules in dev and copies it into
+// the build output, so hand tracking never depends on a CDN.
+const mediapipeWasm = (): Plugin => {
+  const wasmDir = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+  const outDir = 'mediapipe/wasm';
+  const contentTypes: Record<string, string> = {
+    '.js': 'text/javascript',
+    '.wasm': 'application/wasm',
+  };
+
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(`/${outDir}`, (req, res, next) => {
+        const file = path.join(wasmDir, path.basename((req.url || '').split('?')[0]));
+        if (!fs.existsSync(file)) return next();
+        res.setHeader('Content-Type', contentTypes[path.extname(file)] || 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of fs.readdirSync(wasmDir)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${outDir}/${file}`,
+          source: fs.readFileSync(path.join(wasmDir, file)),
+        });
+      }
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +42,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE || '')
       },
       resolve: {
         alias: {